@@ -1,10 +1,58 @@
 import express from 'express';
 import cors from 'cors';
 import { SheetsService } from './services/sheets';
-import { AIService, AnthropicProvider, OpenAIProvider, GeminiProvider } from './services/ai';
-import { AuthService, extractAccessToken } from './services/auth';
-import { SessionService } from './services/session';
-import { ChatRequest, ChatMessage, StreamingChatChunk, APIResponse } from './types/shared';
+import { AIService, AIProviderType, AI_PROVIDER_TYPES, OpenAICompatibleConfig, AnthropicProvider, OpenAIProvider, GeminiProvider } from './services/ai';
+import { AuthService, SESSION_COOKIE, readCookie, requireUser } from './services/auth';
+import { SessionService, applyOperationChanges, reviveSession } from './services/session';
+import { createRecordStore, StorageBackend, StorageConfig } from './services/store';
+import { TokenVault, reviveVaultEntry } from './services/vault';
+import { ApiKeyStore, reviveUserApiKeys } from './services/keys';
+import { MockConfig, loadFixtures, mockModels } from './services/mock';
+import { estimateCost, getModel, listModels, registerModels, validateGenerationOptions } from './services/models';
+import { UsageService, reviveUserUsage } from './services/usage';
+import { RateLimiter, rateLimitConfigFromEnv, reviveLimiterRecord } from './services/ratelimit';
+import { REQUEST_ID_HEADER, metrics, registry, requestContext } from './services/observability';
+import { HistoryService, toEntryInfo } from './services/history';
+import { SheetContextService } from './services/context';
+import { ConversationCompactor } from './services/compaction';
+import { SHEETS_TOOLS, executeToolCall, failedToolResult, toolCallToOperation, isReadOnlyOperation } from './services/tools';
+import { deriveEncryptionKey, generateToken } from './utils/crypto';
+import { estimateUsage } from './utils/tokens';
+import { logger } from './utils/logger';
+import { ApiError, InvalidOperationError, NotFoundError, PermissionDeniedError, UnauthenticatedError } from './utils/errors';
+import { sendError, sendSuccess } from './utils/response';
+import { schemas, validateRequest } from './services/validation';
+import {
+  ModelRef,
+  ModelInfo,
+  ChatRequest,
+  ChatMessage,
+  StreamingChatChunk,
+  ToolCall,
+  ToolResult,
+  SheetsOperation,
+  StatsInfo,
+  TokenUsage,
+  ErrorCode,
+  SessionInfo,
+  ApiKeyInfo,
+  BatchResult,
+  AuthUrlQuery,
+  AuthUrlResponse,
+  AuthCallbackRequest,
+  AuthSessionInfo,
+  CreateSessionRequest,
+  CreateSessionResponse,
+  CancelGenerationResponse,
+  UpdatePendingOperationRequest,
+  ApprovePendingOperationRequest,
+  RejectPendingOperationRequest,
+  SaveApiKeyRequest,
+  TestApiKeyRequest,
+  OperationRequest,
+  BatchRequest,
+  ModelsQuery,
+} from './types/shared';
 
 const app = express();
 const PORT = process.env.PORT || 3000;
@@ -16,254 +64,690 @@ const authService = new AuthService({
   redirectUri: process.env.GOOGLE_REDIRECT_URI || 'http://localhost:3000/auth/callback',
 });
 
-const aiService = new AIService();
-const sessionService = new SessionService();
+const storageConfig: StorageConfig = {
+  backend: (process.env.STORAGE_BACKEND || 'memory') as StorageBackend,
+  path: process.env.STORAGE_PATH,
+};
 
-// Start session cleanup timer
+// Tokens and keys are encrypted at rest with this key; a random one only lasts until restart
+if (!process.env.ENCRYPTION_KEY && process.env.NODE_ENV === 'production') {
+  throw new Error('ENCRYPTION_KEY must be set in production');
+}
+if (!process.env.ENCRYPTION_KEY) {
+  logger.warn('ENCRYPTION_KEY is not set; using a temporary key, so stored sign-ins will not survive a restart');
+}
+const encryptionKey = deriveEncryptionKey(process.env.ENCRYPTION_KEY || generateToken());
+
+const apiKeyStore = new ApiKeyStore(
+  encryptionKey,
+  createRecordStore(storageConfig, { name: 'api_keys', revive: reviveUserApiKeys })
+);
+
+// Server-wide keys are only used for users without their own when explicitly enabled
+const SERVER_KEY_VARIABLES: Partial<Record<AIProviderType, string>> = {
+  anthropic: 'ANTHROPIC_API_KEY',
+  openai: 'OPENAI_API_KEY',
+  gemini: 'GEMINI_API_KEY',
+};
+const serverKeys: Partial<Record<AIProviderType, string>> = {};
+if (process.env.AI_SERVER_KEY_FALLBACK === 'true') {
+  for (const type of AI_PROVIDER_TYPES) {
+    const variable = SERVER_KEY_VARIABLES[type];
+    const key = variable && process.env[variable];
+    if (key) serverKeys[type] = key;
+  }
+}
+
+// Self-hosted OpenAI-compatible endpoint (Ollama, vLLM, LM Studio); its models are only known from configuration
+let openAICompatible: OpenAICompatibleConfig | undefined;
+if (process.env.OPENAI_COMPATIBLE_BASE_URL) {
+  const modelIds = (process.env.OPENAI_COMPATIBLE_MODELS || '').split(',').map(value => value.trim()).filter(Boolean);
+  if (modelIds.length === 0) {
+    throw new Error('OPENAI_COMPATIBLE_MODELS must list at least one model when OPENAI_COMPATIBLE_BASE_URL is set');
+  }
+
+  const supportsTools = process.env.OPENAI_COMPATIBLE_TOOLS !== 'false';
+  const contextWindow = parseInt(process.env.OPENAI_COMPATIBLE_CONTEXT_WINDOW || '8192', 10);
+
+  registerModels(modelIds.map(id => ({
+    id,
+    provider: 'openai-compatible',
+    name: id,
+    contextWindow,
+    maxOutputTokens: Math.min(4096, contextWindow),
+    maxTemperature: 2,
+    capabilities: { tools: supportsTools, vision: false, streaming: true },
+  })));
+
+  openAICompatible = {
+    baseUrl: process.env.OPENAI_COMPATIBLE_BASE_URL,
+    model: modelIds[0],
+    apiKey: process.env.OPENAI_COMPATIBLE_API_KEY || undefined,
+    authHeader: process.env.OPENAI_COMPATIBLE_AUTH_HEADER || undefined,
+    timeoutMs: process.env.OPENAI_COMPATIBLE_TIMEOUT_MS ? parseInt(process.env.OPENAI_COMPATIBLE_TIMEOUT_MS, 10) : undefined,
+    supportsTools,
+  };
+}
+
+// Offline provider replaying scripted and recorded fixtures, for development and regression tests
+let mock: MockConfig | undefined;
+if (process.env.AI_MOCK_PROVIDER === 'true') {
+  const fixtures = loadFixtures(process.env.AI_MOCK_FIXTURES_DIR || 'fixtures');
+  registerModels(mockModels(fixtures));
+  mock = {
+    fixtures,
+    ...(process.env.AI_MOCK_DELAY_SCALE ? { delayScale: parseFloat(process.env.AI_MOCK_DELAY_SCALE) } : {}),
+  };
+  logger.info('Mock AI provider enabled', { fixtures: fixtures.length });
+}
+
+// Failover list, e.g. "openai:gpt-4o,gemini:gemini-1.5-pro"; entries not in the model catalog are ignored
+const failover: ModelRef[] = [];
+for (const entry of (process.env.AI_FAILOVER || '').split(',').map(value => value.trim()).filter(Boolean)) {
+  // Split on the first colon only, since self-hosted model names often contain one (llama3.1:8b)
+  const separator = entry.indexOf(':');
+  const provider = entry.slice(0, separator);
+  const model = entry.slice(separator + 1);
+  if (separator > 0 && getModel(provider, model)) {
+    failover.push({ provider, model });
+  } else {
+    logger.warn('Ignoring unknown failover model', { entry });
+  }
+}
+
+const aiService = new AIService({
+  keyStore: apiKeyStore,
+  serverKeys,
+  failover,
+  openAICompatible,
+  mock,
+  recordFixturesDir: process.env.AI_RECORD_FIXTURES_DIR || undefined,
+  retry: {
+    ...(process.env.AI_MAX_RETRIES ? { maxRetries: parseInt(process.env.AI_MAX_RETRIES, 10) } : {}),
+    ...(process.env.AI_RETRY_DELAY_MS ? { initialDelayMs: parseInt(process.env.AI_RETRY_DELAY_MS, 10) } : {}),
+  },
+});
+const sessionService = new SessionService(createRecordStore(storageConfig, { name: 'sessions', revive: reviveSession }));
+const tokenVault = new TokenVault(
+  authService,
+  encryptionKey,
+  createRecordStore(storageConfig, { name: 'vault', revive: reviveVaultEntry })
+);
+const usageService = new UsageService(createRecordStore(storageConfig, { name: 'usage', revive: reviveUserUsage }));
+// Limiter state is kept in memory unless RATE_LIMIT_STORAGE_BACKEND asks for the shared storage path
+const rateLimiter = new RateLimiter(
+  rateLimitConfigFromEnv(process.env),
+  createRecordStore(
+    { ...storageConfig, backend: (process.env.RATE_LIMIT_STORAGE_BACKEND || 'memory') as StorageBackend },
+    { name: 'rate_limits', revive: reviveLimiterRecord }
+  )
+);
+const historyService = new HistoryService();
+const conversationCompactor = new ConversationCompactor();
+const sheetContextService = new SheetContextService({
+  ...(process.env.AI_CONTEXT_TOKEN_BUDGET ? { tokenBudget: parseInt(process.env.AI_CONTEXT_TOKEN_BUDGET, 10) } : {}),
+  ...(process.env.AI_CONTEXT_SAMPLE_ROWS ? { sampleRows: parseInt(process.env.AI_CONTEXT_SAMPLE_ROWS, 10) } : {}),
+});
+
+// Start session cleanup timers
 sessionService.startCleanupTimer();
+tokenVault.startCleanupTimer();
+rateLimiter.startCleanupTimer();
+
+const SESSION_COOKIE_OPTIONS = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'lax' as const,
+  path: '/',
+  maxAge: 30 * 24 * 60 * 60 * 1000, // 30 days, matching the vault's inactivity timeout
+};
 
 // Middleware
+app.use(requestContext());
 app.use(cors({
   origin: process.env.FRONTEND_URL || 'http://localhost:3001',
   credentials: true,
+  exposedHeaders: [REQUEST_ID_HEADER],
 }));
 app.use(express.json({ limit: '10mb' }));
 
+// Prometheus metrics; set METRICS_TOKEN to require it as a bearer token
+app.get('/metrics', (req, res) => {
+  const token = process.env.METRICS_TOKEN;
+  if (token && req.header('Authorization') !== `Bearer ${token}`) {
+    return sendError(res, 401, 'UNAUTHENTICATED', 'Metrics token required');
+  }
+
+  res.setHeader('Content-Type', 'text/plain; version=0.0.4');
+  res.send(registry.render());
+});
+
 // Health check
 app.get('/health', (req, res) => {
-  res.json({ 
-    status: 'healthy', 
+  sendSuccess(res, {
+    status: 'healthy',
     service: 'Sheets IDE Backend',
-    timestamp: new Date().toISOString(),
     version: '1.0.0',
   });
 });
 
 // OAuth endpoints
-app.get('/auth/url', (req, res) => {
+app.get('/auth/url', validateRequest({ query: schemas.authUrlQuery }), (req, res, next) => {
   try {
-    const { state } = req.query;
-    const authUrl = authService.generateAuthUrl(state as string);
-    
-    res.json({
-      success: true,
-      authUrl,
-      timestamp: new Date().toISOString(),
-    });
-  } catch (error: any) {
-    console.error('Auth URL error:', error);
-    res.status(500).json({
-      success: false,
-      error: error.message || 'Failed to generate auth URL',
-    });
+    const { state }: AuthUrlQuery = req.query;
+    const authUrl = authService.generateAuthUrl(state);
+
+    sendSuccess<AuthUrlResponse>(res, { authUrl });
+  } catch (error) {
+    next(error);
   }
 });
 
-app.post('/auth/callback', async (req, res) => {
+app.post('/auth/callback', validateRequest({ body: schemas.authCallback }), async (req, res, next) => {
   try {
-    const { code } = req.body;
-    
-    if (!code) {
-      return res.status(400).json({
-        success: false,
-        error: 'Authorization code is required',
-      });
-    }
+    const { code }: AuthCallbackRequest = req.body;
 
     const tokens = await authService.exchangeCodeForTokens(code);
     const userInfo = await authService.getUserInfo(tokens.accessToken);
+
+    // Google tokens stay on the server; the browser only gets an opaque session cookie
+    const sessionToken = tokenVault.create({ id: String(userInfo.id), email: userInfo.email, name: userInfo.name }, tokens);
+    res.cookie(SESSION_COOKIE, sessionToken, SESSION_COOKIE_OPTIONS);
     
-    res.json({
-      success: true,
-      tokens,
-      user: userInfo,
-      timestamp: new Date().toISOString(),
-    });
-  } catch (error: any) {
-    console.error('Auth callback error:', error);
-    res.status(500).json({
-      success: false,
-      error: error.message || 'Authentication failed',
-    });
+    sendSuccess<AuthSessionInfo>(res, { user: userInfo, expiryDate: tokens.expiryDate });
+  } catch (error) {
+    next(error);
   }
 });
 
-app.post('/auth/refresh', async (req, res) => {
+app.post('/auth/refresh', async (req, res, next) => {
   try {
-    const { refreshToken } = req.body;
+    const sessionToken = readCookie(req, SESSION_COOKIE);
+    const credentials = sessionToken ? await tokenVault.refresh(sessionToken) : null;
+
+    if (!credentials) {
+      res.clearCookie(SESSION_COOKIE, { path: '/' });
+      return sendError(res, 401, 'UNAUTHENTICATED', 'Session has expired, please sign in again');
+    }
     
-    if (!refreshToken) {
-      return res.status(400).json({
-        success: false,
-        error: 'Refresh token is required',
-      });
+    sendSuccess<AuthSessionInfo>(res, { user: credentials.user, expiryDate: credentials.expiryDate });
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.post('/auth/logout', async (req, res, next) => {
+  try {
+    const sessionToken = readCookie(req, SESSION_COOKIE);
+    if (sessionToken) {
+      await tokenVault.revoke(sessionToken);
     }
 
-    const tokens = await authService.refreshAccessToken(refreshToken);
-    
-    res.json({
-      success: true,
-      tokens,
-      timestamp: new Date().toISOString(),
-    });
-  } catch (error: any) {
-    console.error('Token refresh error:', error);
-    res.status(500).json({
-      success: false,
-      error: error.message || 'Token refresh failed',
-    });
+    res.clearCookie(SESSION_COOKIE, { path: '/' });
+    sendSuccess(res);
+  } catch (error) {
+    next(error);
   }
 });
 
+// Everything below needs the signed-in Google user and a valid access token
+app.use(['/api/session', '/api/sessions', '/api/chat', '/api/spreadsheet', '/api/keys', '/api/stats'], requireUser(authService, tokenVault));
+
 // Session management endpoints
-app.post('/api/session/create', (req, res) => {
+app.get('/api/sessions', (req, res, next) => {
   try {
-    const { spreadsheetId } = req.body;
-    const sessionId = sessionService.createSession(spreadsheetId);
-    
-    res.json({
-      success: true,
-      sessionId,
-      timestamp: new Date().toISOString(),
-    });
-  } catch (error: any) {
-    console.error('Session creation error:', error);
-    res.status(500).json({
-      success: false,
-      error: error.message || 'Failed to create session',
-    });
+    const sessions = sessionService.listSessions(req.user!.id);
+
+    sendSuccess(res, sessions);
+  } catch (error) {
+    next(error);
   }
 });
 
-app.get('/api/session/:id', (req, res) => {
+app.post('/api/session/create', validateRequest({ body: schemas.createSession }), (req, res, next) => {
+  try {
+    const { spreadsheetId }: CreateSessionRequest = req.body;
+    const sessionId = sessionService.createSession(req.user!.id, spreadsheetId);
+
+    sendSuccess<CreateSessionResponse>(res, { sessionId });
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.get('/api/session/:id', (req, res, next) => {
   try {
     const { id } = req.params;
-    const session = sessionService.getSession(id);
-    
-    if (!session) {
-      return res.status(404).json({
-        success: false,
-        error: 'Session not found',
-      });
+
+    const accessError = checkSessionAccess(id, req.user!.id);
+    if (accessError) {
+      return sendError(res, accessError.status, accessError.code, accessError.error);
     }
-    
-    res.json({
-      success: true,
-      session: {
-        id: session.id,
-        messageCount: session.messages.length,
-        spreadsheetId: session.spreadsheetId,
-        createdAt: session.createdAt,
-        lastActivity: session.lastActivity,
-      },
-      timestamp: new Date().toISOString(),
-    });
-  } catch (error: any) {
-    console.error('Session retrieval error:', error);
-    res.status(500).json({
-      success: false,
-      error: error.message || 'Failed to get session',
+
+    const session = sessionService.getSession(id)!;
+
+    sendSuccess<SessionInfo>(res, {
+      id: session.id,
+      title: session.title || 'New conversation',
+      messageCount: session.messages.length,
+      spreadsheetId: session.spreadsheetId,
+      defaultModel: session.defaultModel,
+      usage: session.usage,
+      createdAt: session.createdAt,
+      lastActivity: session.lastActivity,
     });
+  } catch (error) {
+    next(error);
   }
 });
 
-app.get('/api/session/:id/history', (req, res) => {
+app.get('/api/session/:id/history', (req, res, next) => {
   try {
     const { id } = req.params;
-    const history = sessionService.getHistory(id);
-    
-    res.json({
-      success: true,
-      messages: history,
-      count: history.length,
-      timestamp: new Date().toISOString(),
-    });
-  } catch (error: any) {
-    console.error('Session history error:', error);
-    res.status(500).json({
-      success: false,
-      error: error.message || 'Failed to get session history',
-    });
+
+    const accessError = checkSessionAccess(id, req.user!.id);
+    if (accessError) {
+      return sendError(res, accessError.status, accessError.code, accessError.error);
+    }
+
+    sendSuccess<ChatMessage[]>(res, sessionService.getHistory(id));
+  } catch (error) {
+    next(error);
   }
 });
 
-app.delete('/api/session/:id', (req, res) => {
+app.delete('/api/session/:id', (req, res, next) => {
   try {
     const { id } = req.params;
-    const deleted = sessionService.deleteSession(id);
-    
-    if (!deleted) {
-      return res.status(404).json({
-        success: false,
-        error: 'Session not found',
-      });
+
+    const accessError = checkSessionAccess(id, req.user!.id);
+    if (accessError) {
+      return sendError(res, accessError.status, accessError.code, accessError.error);
     }
+
+    sessionService.deleteSession(id);
     
-    res.json({
-      success: true,
-      message: 'Session deleted successfully',
-      timestamp: new Date().toISOString(),
-    });
-  } catch (error: any) {
-    console.error('Session deletion error:', error);
-    res.status(500).json({
-      success: false,
-      error: error.message || 'Failed to delete session',
-    });
+    sendSuccess(res);
+  } catch (error) {
+    next(error);
   }
 });
 
-app.post('/api/session/:id/clear', (req, res) => {
+app.post('/api/session/:id/clear', (req, res, next) => {
   try {
     const { id } = req.params;
+
+    const accessError = checkSessionAccess(id, req.user!.id);
+    if (accessError) {
+      return sendError(res, accessError.status, accessError.code, accessError.error);
+    }
+
     sessionService.clearSession(id);
     
-    res.json({
-      success: true,
-      message: 'Session cleared successfully',
-      timestamp: new Date().toISOString(),
-    });
-  } catch (error: any) {
-    console.error('Session clear error:', error);
-    res.status(500).json({
-      success: false,
-      error: error.message || 'Failed to clear session',
+    sendSuccess(res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Pin the model a session uses when chat requests do not name one
+app.put('/api/session/:id/model', validateRequest({ body: schemas.sessionModel }), (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const { provider, model }: ModelRef = req.body;
+
+    const accessError = checkSessionAccess(id, req.user!.id);
+    if (accessError) {
+      return sendError(res, accessError.status, accessError.code, accessError.error);
+    }
+
+    const providerType = parseProviderType(provider);
+    if (!providerType || !getModel(providerType, model)) {
+      return sendError(res, 400, 'BAD_REQUEST', `Unknown model: ${provider}/${model}. See /api/models for supported models.`);
+    }
+
+    sessionService.setDefaultModel(id, { provider: providerType, model });
+
+    sendSuccess<ModelRef>(res, { provider: providerType, model });
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.delete('/api/session/:id/model', (req, res, next) => {
+  try {
+    const { id } = req.params;
+
+    const accessError = checkSessionAccess(id, req.user!.id);
+    if (accessError) {
+      return sendError(res, accessError.status, accessError.code, accessError.error);
+    }
+
+    sessionService.setDefaultModel(id, undefined);
+
+    sendSuccess(res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Stop the AI response currently streaming for a session
+app.post('/api/session/:id/cancel', (req, res, next) => {
+  try {
+    const { id } = req.params;
+
+    const accessError = checkSessionAccess(id, req.user!.id);
+    if (accessError) {
+      return sendError(res, accessError.status, accessError.code, accessError.error);
+    }
+
+    const cancelled = sessionService.cancelGeneration(id);
+
+    sendSuccess<CancelGenerationResponse>(res, { cancelled });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Pending operation approval endpoints
+app.get('/api/session/:id/pending', (req, res, next) => {
+  try {
+    const { id } = req.params;
+
+    const accessError = checkSessionAccess(id, req.user!.id);
+    if (accessError) {
+      return sendError(res, accessError.status, accessError.code, accessError.error);
+    }
+
+    const pendingOperations = sessionService.getPendingOperations(id);
+
+    sendSuccess(res, pendingOperations);
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.patch('/api/session/:id/pending/:operationId', validateRequest({ body: schemas.updatePendingOperation }), (req, res, next) => {
+  try {
+    const { id, operationId } = req.params;
+    const { operation }: UpdatePendingOperationRequest = req.body;
+
+    const lookupError = checkPendingOperation(id, operationId, req.user!.id);
+    if (lookupError) {
+      return sendError(res, lookupError.status, lookupError.code, lookupError.error);
+    }
+
+    const pendingOperation = sessionService.updatePendingOperation(id, operationId, operation);
+
+    sendSuccess(res, pendingOperation);
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.post('/api/session/:id/pending/:operationId/approve', validateRequest({ body: schemas.approvePendingOperation }), rateLimiter.limit('sheets_write', {
+  spreadsheetId: req => sessionService.isOwner(req.params.id, req.user!.id)
+    ? sessionService.getPendingOperation(req.params.id, req.params.operationId)?.spreadsheetId
+    : undefined,
+}), async (req, res, next) => {
+  try {
+    const { id, operationId } = req.params;
+    const { operation }: ApprovePendingOperationRequest = req.body;
+    const accessToken = req.accessToken!;
+
+    const lookupError = checkPendingOperation(id, operationId, req.user!.id);
+    if (lookupError) {
+      return sendError(res, lookupError.status, lookupError.code, lookupError.error);
+    }
+
+    // Last-minute edits can be sent along with the approval. They are checked first so an
+    // invalid edit leaves the operation pending.
+    const sheetsService = new SheetsService(accessToken, historyService.forUser(req.user!.id), req.log);
+    if (operation) {
+      const proposed = sessionService.getPendingOperation(id, operationId)!;
+      sheetsService.validateOperation(applyOperationChanges(proposed.operation, operation));
+    }
+
+    // Claimed before applying so a concurrent approval gets a 409 instead of applying it twice
+    const pendingOperation = sessionService.claimPendingOperation(id, operationId, operation);
+
+    let resolved;
+    try {
+      const result = await sheetsService.executeOperation(pendingOperation.spreadsheetId, pendingOperation.operation);
+      resolved = sessionService.resolvePendingOperation(id, operationId, 'approved', { result });
+    } catch (error: any) {
+      resolved = sessionService.resolvePendingOperation(id, operationId, 'failed', { error: error.message });
+      throw error;
+    }
+
+    sendSuccess(res, resolved);
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.post('/api/session/:id/pending/:operationId/reject', validateRequest({ body: schemas.rejectPendingOperation }), (req, res, next) => {
+  try {
+    const { id, operationId } = req.params;
+    const { reason }: RejectPendingOperationRequest = req.body;
+
+    const lookupError = checkPendingOperation(id, operationId, req.user!.id);
+    if (lookupError) {
+      return sendError(res, lookupError.status, lookupError.code, lookupError.error);
+    }
+
+    const pendingOperation = sessionService.resolvePendingOperation(id, operationId, 'rejected', { error: reason });
+
+    sendSuccess(res, pendingOperation);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// A reason to refuse a request, sent with sendError
+interface RequestProblem {
+  status: number;
+  code: ErrorCode;
+  error: string;
+}
+
+/**
+ * Check that a session exists and belongs to the user. Other users' sessions are
+ * reported as not found so session IDs cannot be probed.
+ */
+function checkSessionAccess(sessionId: string, userId: string): RequestProblem | null {
+  if (!sessionService.isOwner(sessionId, userId)) {
+    return { status: 404, code: 'NOT_FOUND', error: 'Session not found' };
+  }
+
+  return null;
+}
+
+/**
+ * Check that a pending operation exists in the user's session and is still awaiting a decision
+ */
+function checkPendingOperation(
+  sessionId: string,
+  operationId: string,
+  userId: string
+): RequestProblem | null {
+  const accessError = checkSessionAccess(sessionId, userId);
+  if (accessError) {
+    return accessError;
+  }
+
+  const pendingOperation = sessionService.getPendingOperation(sessionId, operationId);
+  if (!pendingOperation) {
+    return { status: 404, code: 'NOT_FOUND', error: 'Pending operation not found' };
+  }
+  if (pendingOperation.status !== 'pending') {
+    return { status: 409, code: 'CONFLICT', error: `Pending operation is already ${pendingOperation.status}` };
+  }
+
+  return null;
+}
+
+// AI provider key endpoints. Keys are stored encrypted and never returned in full.
+app.get('/api/keys', (req, res, next) => {
+  try {
+    sendSuccess(res, {
+      keys: apiKeyStore.list(req.user!.id),
+      serverKeys: AI_PROVIDER_TYPES.filter(type => aiService.hasServerKey(type)),
     });
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.put('/api/keys/:provider', validateRequest({ body: schemas.saveApiKey }), rateLimiter.limit('key_test'), async (req, res, next) => {
+  try {
+    const provider = parseProviderType(req.params.provider);
+    const { apiKey, test = false }: SaveApiKeyRequest = req.body;
+
+    if (!provider) {
+      return sendError(res, 400, 'BAD_REQUEST', `Unknown AI provider: ${req.params.provider}`);
+    }
+
+    // Optionally refuse to save a key the provider rejects
+    if (test) {
+      const outcome = await aiService.testApiKey(provider, apiKey);
+      if (!outcome.valid) {
+        return sendError(res, 400, 'BAD_REQUEST', `API key was rejected: ${outcome.error}`);
+      }
+    }
+
+    const saved = apiKeyStore.save(req.user!.id, provider, apiKey);
+    const keyInfo = test ? apiKeyStore.recordTest(req.user!.id, provider, true) : saved;
+
+    sendSuccess<ApiKeyInfo>(res, keyInfo || saved);
+  } catch (error) {
+    next(error);
   }
 });
 
+app.post('/api/keys/:provider/test', validateRequest({ body: schemas.testApiKey }), rateLimiter.limit('key_test'), async (req, res, next) => {
+  try {
+    const provider = parseProviderType(req.params.provider);
+    const { apiKey }: TestApiKeyRequest = req.body;
+
+    if (!provider) {
+      return sendError(res, 400, 'BAD_REQUEST', `Unknown AI provider: ${req.params.provider}`);
+    }
+
+    // Test a key before saving it, or the one already saved
+    const key = apiKey || apiKeyStore.getKey(req.user!.id, provider);
+    if (!key) {
+      return sendError(res, 404, 'NOT_FOUND', `No ${provider} API key saved`);
+    }
+
+    const outcome = await aiService.testApiKey(provider, key);
+    const keyInfo = apiKey ? undefined : apiKeyStore.recordTest(req.user!.id, provider, outcome.valid);
+
+    sendSuccess(res, { ...outcome, key: keyInfo });
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.delete('/api/keys/:provider', (req, res, next) => {
+  try {
+    const provider = parseProviderType(req.params.provider);
+
+    if (!provider) {
+      return sendError(res, 400, 'BAD_REQUEST', `Unknown AI provider: ${req.params.provider}`);
+    }
+
+    if (!apiKeyStore.delete(req.user!.id, provider)) {
+      return sendError(res, 404, 'NOT_FOUND', `No ${provider} API key saved`);
+    }
+
+    sendSuccess(res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Narrow a route parameter to an AI provider this server can use
+ */
+function parseProviderType(value: string): AIProviderType | null {
+  return aiService.getProviderTypes().includes(value as AIProviderType) ? value as AIProviderType : null;
+}
+
+/**
+ * Add a response to the user's usage totals and return its estimated cost
+ */
+function recordUsage(userId: string, provider: string, model: string, usage: TokenUsage): number {
+  const cost = estimateCost(provider, model, usage);
+  usageService.record(userId, provider, usage, cost);
+  rateLimiter.recordAITokens(userId, usage.inputTokens + usage.outputTokens);
+  metrics.aiTokens.inc({ provider, direction: 'input' }, usage.inputTokens);
+  metrics.aiTokens.inc({ provider, direction: 'output' }, usage.outputTokens);
+  return cost;
+}
+
 // Main chat endpoint with Google Sheets integration
-app.post('/api/chat', async (req, res) => {
+app.post('/api/chat', validateRequest({ body: schemas.chat }), rateLimiter.limit('chat', {
+  spreadsheetId: req => req.body.spreadsheetId,
+  aiTokens: true,
+}), async (req, res, next) => {
   try {
-    const { message, sessionId, aiProvider = 'anthropic', aiApiKey, spreadsheetId }: ChatRequest & { sessionId: string; aiProvider?: string; aiApiKey?: string } = req.body;
+    const {
+      message,
+      sessionId,
+      aiProvider,
+      aiApiKey,
+      spreadsheetId,
+      model,
+      temperature,
+      maxTokens,
+      stopSequences,
+    }: ChatRequest = req.body;
+
+    const accessError = checkSessionAccess(sessionId, req.user!.id);
+    if (accessError) {
+      return sendError(res, accessError.status, accessError.code, accessError.error);
+    }
 
-    // Validate required fields
-    if (!message || !sessionId || !aiApiKey || !spreadsheetId) {
-      return res.status(400).json({
-        success: false,
-        error: 'Missing required fields: message, sessionId, aiApiKey, spreadsheetId',
-      });
+    // Fall back to the session's pinned model when the request does not choose one
+    const session = sessionService.getSession(sessionId)!;
+    const pinned = session.defaultModel;
+    const providerType = parseProviderType(aiProvider || pinned?.provider || 'anthropic');
+    if (!providerType) {
+      return sendError(res, 400, 'BAD_REQUEST', `Unknown AI provider: ${aiProvider}`);
     }
 
-    // Get access token from Authorization header
-    const accessToken = extractAccessToken(req);
-    if (!accessToken) {
-      return res.status(401).json({
-        success: false,
-        error: 'Missing or invalid authorization header',
-      });
+    const generation = {
+      model: model || (pinned?.provider === providerType ? pinned.model : undefined),
+      temperature,
+      maxTokens,
+      stopSequences,
+    };
+    const generationError = validateGenerationOptions(providerType, generation);
+    if (generationError) {
+      return sendError(res, 400, 'BAD_REQUEST', generationError);
+    }
+
+    // A key in the request wins; otherwise use the user's saved key or the server's
+    if (!aiApiKey && !aiService.hasCredentials(providerType, req.user!.id)) {
+      return sendError(res, 400, 'BAD_REQUEST', `No ${providerType} API key available. Save one under /api/keys or send aiApiKey.`);
     }
 
+    const accessToken = req.accessToken!;
+
     // Initialize services
-    const sheetsService = new SheetsService(accessToken);
-    const aiProvider_instance = aiService.createProvider(aiProvider as 'anthropic' | 'openai' | 'gemini', aiApiKey);
+    const sheetsService = new SheetsService(accessToken, historyService.forUser(req.user!.id), req.log);
+    const aiProvider_instance = aiService.createProvider(providerType, {
+      apiKey: aiApiKey,
+      userId: req.user!.id,
+      ...generation,
+    });
 
     // Get conversation history from session
     const conversationHistory = sessionService.getHistory(sessionId);
 
     // Update session with current spreadsheet if different
-    const session = sessionService.getSession(sessionId);
-    if (session && session.spreadsheetId !== spreadsheetId) {
+    if (session.spreadsheetId !== spreadsheetId) {
       sessionService.setSpreadsheetId(sessionId, spreadsheetId);
     }
 
@@ -272,11 +756,27 @@ app.post('/api/chat', async (req, res) => {
     try {
       spreadsheetInfo = await sheetsService.getSpreadsheetInfo(spreadsheetId);
     } catch (error: any) {
-      console.warn('Could not get spreadsheet info:', error.message);
+      // Without access to the spreadsheet there is nothing useful the assistant can do
+      if (error instanceof NotFoundError || error instanceof PermissionDeniedError || error instanceof UnauthenticatedError) {
+        return next(error);
+      }
+      req.log.warn('Could not get spreadsheet info', { spreadsheetId, error: error.message });
+    }
+
+    // Describe the sheets most relevant to this message. Each sheet read counts toward the
+    // spreadsheet read limits; once they are reached the remaining sheets are left out.
+    let sheetContext: string | undefined;
+    if (spreadsheetInfo) {
+      const allowRead = () => rateLimiter.consume('sheets_read', { user: req.user!.id, spreadsheet: spreadsheetId }).allowed;
+      try {
+        sheetContext = await sheetContextService.buildContext(sheetsService, spreadsheetInfo, message, allowRead);
+      } catch (error: any) {
+        req.log.warn('Could not build sheet context', { spreadsheetId, error: error.message });
+      }
     }
 
     // Build system prompt with sheets context
-    const systemPrompt = aiService.buildSheetsSystemPrompt(spreadsheetId, spreadsheetInfo);
+    const systemPrompt = aiService.buildSheetsSystemPrompt(spreadsheetId, spreadsheetInfo, sheetContext);
 
     // Create user message
     const userMessage: ChatMessage = {
@@ -287,14 +787,33 @@ app.post('/api/chat', async (req, res) => {
       spreadsheetId,
     };
 
+    // Cancelled by POST /api/session/:id/cancel, a newer message in the session, or the client
+    // going away. A turn still running is cancelled before this message is stored, so it stops
+    // streaming while this turn is being prepared.
+    const signal = sessionService.startGeneration(sessionId);
+
     // Add user message to session
     sessionService.addMessage(sessionId, userMessage);
 
-    // Prepare conversation history for AI
-    const messages: ChatMessage[] = [
-      ...conversationHistory,
-      userMessage,
-    ];
+    // Prepare conversation history for AI, summarizing older turns that no longer fit
+    const compaction = await conversationCompactor.compact(
+      aiProvider_instance,
+      [...conversationHistory, userMessage],
+      systemPrompt,
+      session.summary,
+      { maxTokens: generation.maxTokens, tools: SHEETS_TOOLS }
+    );
+    if (compaction.summaryUpdated && compaction.summary) {
+      sessionService.setSummary(sessionId, compaction.summary);
+    }
+    if (compaction.usage) {
+      recordUsage(req.user!.id, aiProvider_instance.name, aiProvider_instance.model, compaction.usage);
+    }
+
+    const messages: ChatMessage[] = compaction.messages;
+    const chatSystemPrompt = compaction.summary
+      ? aiService.withConversationSummary(systemPrompt, compaction.summary.content)
+      : systemPrompt;
 
     // Set up streaming response
     res.setHeader('Content-Type', 'text/event-stream');
@@ -303,15 +822,83 @@ app.post('/api/chat', async (req, res) => {
     res.setHeader('Access-Control-Allow-Origin', process.env.FRONTEND_URL || 'http://localhost:3001');
     res.setHeader('Access-Control-Allow-Credentials', 'true');
 
+    // The response's close event is used because the request's fires as soon as its body has been read
+    metrics.activeStreams.inc();
+    res.on('close', () => {
+      metrics.activeStreams.dec();
+      if (!res.writableFinished && !signal.aborted) {
+        sessionService.cancelGeneration(sessionId);
+      }
+    });
+
     let fullResponse = '';
+    let completed = false;
+    let outcome = 'complete';
+    let firstOutput = false;
+    const stopFirstOutputTimer = metrics.aiTimeToFirstToken.startTimer();
     
     try {
       // Stream AI response
-      for await (const chunk of aiProvider_instance.chat(messages, systemPrompt)) {
+      // Reads run immediately; anything that modifies the sheet waits for approval.
+      // Invalid calls are sent back to the model instead of being proposed.
+      const onToolCall = async (call: ToolCall): Promise<ToolResult> => {
+        let operation: SheetsOperation;
+        try {
+          operation = toolCallToOperation(call);
+          sheetsService.validateOperation(operation);
+        } catch (error: any) {
+          return failedToolResult(call, error);
+        }
+
+        if (isReadOnlyOperation(operation)) {
+          return executeToolCall(sheetsService, spreadsheetId, call);
+        }
+
+        const pendingOperation = sessionService.addPendingOperation(sessionId, spreadsheetId, operation, call.id);
+        const announcement: StreamingChatChunk = {
+          type: 'pending_operation',
+          pendingOperation,
+          spreadsheetId,
+        };
+        res.write(`data: ${JSON.stringify(announcement)}\n\n`);
+
+        return {
+          toolCallId: call.id,
+          name: call.name,
+          success: true,
+          result: {
+            status: 'pending_approval',
+            pendingOperationId: pendingOperation.id,
+            message: 'The change has been proposed and will be applied once the user approves it.',
+          },
+        };
+      };
+
+      const chatOptions = {
+        tools: SHEETS_TOOLS,
+        onToolCall,
+        signal,
+        logger: req.log,
+      };
+
+      for await (const chunk of aiProvider_instance.chat(messages, chatSystemPrompt, chatOptions)) {
+        if (signal.aborted) break;
+
+        if (!firstOutput && (chunk.type === 'text' || chunk.type === 'tool_call')) {
+          firstOutput = true;
+          stopFirstOutputTimer({ provider: aiProvider_instance.name, model: aiProvider_instance.model });
+        }
+
         if (chunk.type === 'text' && chunk.content) {
           fullResponse += chunk.content;
           res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+        } else if (chunk.type === 'tool_call' || chunk.type === 'tool_result' || chunk.type === 'failover') {
+          res.write(`data: ${JSON.stringify(chunk)}\n\n`);
         } else if (chunk.type === 'complete') {
+          completed = true;
+          const usage = chunk.usage || estimateUsage(messages, chatSystemPrompt, fullResponse, aiProvider_instance.name);
+          const cost = recordUsage(req.user!.id, aiProvider_instance.name, aiProvider_instance.model, usage);
+
           // Create AI message and save to session
           const aiMessage: ChatMessage = {
             id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
@@ -319,160 +906,334 @@ app.post('/api/chat', async (req, res) => {
             content: fullResponse,
             timestamp: new Date(),
             spreadsheetId,
+            provider: aiProvider_instance.name,
+            model: aiProvider_instance.model,
+            usage,
+            cost,
           };
           
-          sessionService.addMessage(sessionId, aiMessage);
+          sessionService.addMessage(sessionId, aiMessage, userMessage.id);
           
           res.write(`data: ${JSON.stringify({
             type: 'complete',
             response: fullResponse,
             sessionId,
             spreadsheetId,
+            provider: aiProvider_instance.name,
+            model: aiProvider_instance.model,
+            usage,
+            cost,
             timestamp: new Date().toISOString(),
           })}\n\n`);
         } else if (chunk.type === 'error') {
+          outcome = 'error';
           res.write(`data: ${JSON.stringify(chunk)}\n\n`);
         }
       }
+
+      // Keep what was generated before the cancel so the conversation still shows it, ahead of
+      // any newer message that cancelled it. Providers only report usage at the end, so what was
+      // spent is estimated.
+      if (signal.aborted && !completed) {
+        outcome = 'cancelled';
+        if (fullResponse) {
+          const usage = estimateUsage(messages, chatSystemPrompt, fullResponse, aiProvider_instance.name);
+          sessionService.addMessage(sessionId, {
+            id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
+            role: 'assistant',
+            content: fullResponse,
+            timestamp: new Date(),
+            spreadsheetId,
+            interrupted: true,
+            provider: aiProvider_instance.name,
+            model: aiProvider_instance.model,
+            usage,
+            cost: recordUsage(req.user!.id, aiProvider_instance.name, aiProvider_instance.model, usage),
+          }, userMessage.id);
+        }
+
+        res.write(`data: ${JSON.stringify({
+          type: 'cancelled',
+          response: fullResponse,
+          sessionId,
+          spreadsheetId,
+          timestamp: new Date().toISOString(),
+        })}\n\n`);
+      }
     } catch (streamError: any) {
-      console.error('Streaming error:', streamError);
+      outcome = 'error';
+      req.log.error('Streaming error', { error: streamError });
       res.write(`data: ${JSON.stringify({
         type: 'error',
         error: streamError.message || 'Streaming failed'
       })}\n\n`);
+    } finally {
+      sessionService.finishGeneration(sessionId, signal);
+      metrics.aiResponses.inc({ provider: aiProvider_instance.name, model: aiProvider_instance.model, outcome });
     }
     
     res.write('data: [DONE]\n\n');
     res.end();
 
   } catch (error: any) {
-    console.error('Chat API error:', error);
-    
     if (!res.headersSent) {
-      res.status(500).json({
-        success: false,
-        error: error.message || 'Internal server error',
-        timestamp: new Date().toISOString(),
-      });
+      return next(error);
     }
+    req.log.error('Chat API error', { error });
   }
 });
 
+// Spreadsheet routes are limited per spreadsheet as well as per user
+const bySpreadsheet = { spreadsheetId: (req: express.Request) => req.params.id };
+const spreadsheetParams = validateRequest({ params: schemas.spreadsheetParams });
+
 // Spreadsheet info endpoint
-app.get('/api/spreadsheet/:id', async (req, res) => {
+app.get('/api/spreadsheet/:id', spreadsheetParams, rateLimiter.limit('sheets_read', bySpreadsheet), async (req, res, next) => {
   try {
     const { id } = req.params;
-    const accessToken = extractAccessToken(req);
-    
-    if (!accessToken) {
-      return res.status(401).json({
-        success: false,
-        error: 'Missing or invalid authorization header',
-      });
-    }
+    const accessToken = req.accessToken!;
 
-    const sheetsService = new SheetsService(accessToken);
+    const sheetsService = new SheetsService(accessToken, historyService.forUser(req.user!.id), req.log);
     const spreadsheetInfo = await sheetsService.getSpreadsheetInfo(id);
     
-    res.json({ 
-      success: true, 
-      data: spreadsheetInfo,
-      timestamp: new Date().toISOString(),
-    });
+    sendSuccess(res, spreadsheetInfo);
 
-  } catch (error: any) {
-    console.error('Spreadsheet info error:', error);
-    res.status(500).json({ 
-      success: false,
-      error: error.message || 'Failed to get spreadsheet info',
-      timestamp: new Date().toISOString(),
-    });
+  } catch (error) {
+    next(error);
   }
 });
 
 // Sheets operations endpoint
-app.post('/api/spreadsheet/:id/operation', async (req, res) => {
+app.post('/api/spreadsheet/:id/operation', validateRequest({ params: schemas.spreadsheetParams, body: schemas.operation }), rateLimiter.limit('sheets_write', bySpreadsheet), async (req, res, next) => {
   try {
     const { id } = req.params;
-    const { operation } = req.body;
-    const accessToken = extractAccessToken(req);
-    
-    if (!accessToken) {
-      return res.status(401).json({
-        success: false,
-        error: 'Missing or invalid authorization header',
-      });
+    const { operation, dryRun = false }: OperationRequest = req.body;
+    const accessToken = req.accessToken!;
+
+    const sheetsService = new SheetsService(accessToken, historyService.forUser(req.user!.id), req.log);
+    const result = await sheetsService.executeOperation(id, operation, { dryRun });
+
+    sendSuccess(res, result);
+
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Batch operations endpoint
+app.post('/api/spreadsheet/:id/batch', validateRequest({ params: schemas.spreadsheetParams, body: schemas.batch }), rateLimiter.limit('sheets_write', bySpreadsheet), async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const { operations, atomic = false }: BatchRequest = req.body;
+    const accessToken = req.accessToken!;
+
+    const sheetsService = new SheetsService(accessToken, historyService.forUser(req.user!.id), req.log);
+    const result = await sheetsService.executeBatch(id, operations, { atomic });
+
+    if (result.success) {
+      return sendSuccess<BatchResult>(res, result);
     }
 
-    if (!operation) {
-      return res.status(400).json({
-        success: false,
-        error: 'Operation is required',
-      });
+    // No API calls means the batch was refused during validation
+    if (result.apiCalls === 0) {
+      return sendError(res, 400, 'BAD_REQUEST', 'One or more operations are invalid', { data: result });
     }
+    sendError(res, 500, 'OPERATION_FAILED', 'One or more operations failed', { data: result });
 
-    const sheetsService = new SheetsService(accessToken);
-    const result = await sheetsService.executeOperation(id, operation);
-    
-    res.json({ 
-      success: true, 
-      data: result,
-      operation: operation.type,
-      timestamp: new Date().toISOString(),
-    });
+  } catch (error) {
+    next(error);
+  }
+});
 
-  } catch (error: any) {
-    console.error('Sheets operation error:', error);
-    res.status(500).json({ 
-      success: false,
-      error: error.message || 'Operation failed',
-      timestamp: new Date().toISOString(),
-    });
+// Undo/redo endpoints. Each user sees and reverts only their own changes, and only
+// while they can still open the spreadsheet.
+app.get('/api/spreadsheet/:id/history', spreadsheetParams, async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const accessToken = req.accessToken!;
+
+    const history = historyService.forUser(req.user!.id);
+    await new SheetsService(accessToken, history, req.log).getSpreadsheetInfo(id);
+
+    sendSuccess(res, history.list(id));
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.post('/api/spreadsheet/:id/undo', spreadsheetParams, rateLimiter.limit('sheets_write', bySpreadsheet), async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const accessToken = req.accessToken!;
+
+    const sheetsService = new SheetsService(accessToken, historyService.forUser(req.user!.id), req.log);
+    await sheetsService.getSpreadsheetInfo(id);
+    const entry = await sheetsService.undo(id);
+
+    if (!entry) {
+      return sendError(res, 409, 'CONFLICT', 'Nothing to undo');
+    }
+
+    sendSuccess(res, toEntryInfo(entry));
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.post('/api/spreadsheet/:id/redo', spreadsheetParams, rateLimiter.limit('sheets_write', bySpreadsheet), async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const accessToken = req.accessToken!;
+
+    const sheetsService = new SheetsService(accessToken, historyService.forUser(req.user!.id), req.log);
+    await sheetsService.getSpreadsheetInfo(id);
+    const entry = await sheetsService.redo(id);
+
+    if (!entry) {
+      return sendError(res, 409, 'CONFLICT', 'Nothing to redo');
+    }
+
+    sendSuccess(res, toEntryInfo(entry));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Supported models per provider, with context sizes and capabilities
+app.get('/api/models', validateRequest({ query: schemas.modelsQuery }), (req, res) => {
+  const { provider }: ModelsQuery = req.query;
+
+  sendSuccess<ModelInfo[]>(res, listModels(provider));
+});
+
+// Token usage and estimated cost for the signed-in user, with session counts
+app.get('/api/stats', (req, res, next) => {
+  try {
+    const userId = req.user!.id;
+    const sessions = sessionService.listSessions(userId);
+    const { totalSessions, totalMessages } = sessionService.getStats();
+
+    const stats: StatsInfo = {
+      sessions: {
+        total: totalSessions,
+        totalMessages,
+        user: sessions.length,
+      },
+      usage: usageService.getSummary(userId),
+      sessionUsage: sessions
+        .filter(session => session.usage)
+        .map(session => ({ id: session.id, title: session.title, usage: session.usage! })),
+    };
+
+    sendSuccess<StatsInfo>(res, stats);
+  } catch (error) {
+    next(error);
   }
 });
 
 // List available features
 app.get('/api/features', (req, res) => {
-  res.json({
-    success: true,
-    data: {
-      features: [
-        'AI-powered spreadsheet automation',
-        'Natural language processing for sheets',
-        'Multi-AI provider support (Anthropic, OpenAI)',
-        'Real-time streaming responses',
-        'Google Sheets API integration',
-        'OAuth 2.0 authentication',
-        'Read/Write spreadsheet operations',
-        'Formula generation and cell formatting',
-      ],
-      aiProviders: ['anthropic', 'openai', 'gemini'],
-      operations: ['read', 'write', 'create', 'formula', 'format'],
-    },
-    timestamp: new Date().toISOString(),
+  sendSuccess(res, {
+    features: [
+      'AI-powered spreadsheet automation',
+      'Natural language processing for sheets',
+      'Multi-AI provider support (Anthropic, OpenAI)',
+      'Real-time streaming responses',
+      'Google Sheets API integration',
+      'OAuth 2.0 authentication',
+      'Read/Write spreadsheet operations',
+      'Formula generation and cell formatting',
+      'AI tool calling for spreadsheet operations',
+      'Approval workflow for AI-proposed changes',
+      'Undo/redo history for spreadsheet changes',
+      'Dry-run previews with cell-level diffs',
+      'Batched operations with optional rollback',
+      'Structural edits: rows, columns, sorting, merges and sheet management',
+      'Encrypted per-user AI provider keys',
+      'Per-request model selection and generation parameters',
+      'Automatic retry and failover between AI providers',
+      'Self-hosted models through OpenAI-compatible endpoints',
+      'Mock AI provider with fixture record and replay',
+      'Cancellation of in-flight AI responses',
+      'Token usage and cost tracking',
+      'Structured logging with request ids and Prometheus metrics',
+      'Per-user and per-spreadsheet rate limits with daily AI token caps',
+      'Request schema validation with field-level errors',
+      'Google API failures reported with matching HTTP statuses and error codes',
+    ],
+    aiProviders: aiService.getProviderTypes(),
+    operations: [
+      'read',
+      'write',
+      'create',
+      'formula',
+      'format',
+      'insertRows',
+      'deleteRows',
+      'insertColumns',
+      'deleteColumns',
+      'sort',
+      'merge',
+      'unmerge',
+      'renameSheet',
+      'deleteSheet',
+      'duplicateSheet',
+      'hideSheet',
+      'moveSheet',
+      'freeze',
+    ],
   });
 });
 
-// Error handling middleware
-app.use((error: any, req: any, res: any, next: any) => {
-  console.error('Unhandled error:', error);
-  res.status(500).json({
-    success: false,
-    error: 'Internal server error',
-    timestamp: new Date().toISOString(),
-  });
+// Error handling middleware. Typed errors carry their own status and code; anything else is a 500.
+app.use((error: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
+  if (res.headersSent) {
+    return next(error);
+  }
+
+  // Bodies express.json() could not parse
+  if (error.type === 'entity.parse.failed') {
+    return sendError(res, 400, 'VALIDATION_FAILED', 'Request body is not valid JSON', {
+      details: [{ path: 'body', message: 'Is not valid JSON' }],
+    });
+  }
+  if (error.type === 'entity.too.large') {
+    return sendError(res, 413, 'BAD_REQUEST', 'Request body is too large');
+  }
+
+  const log = req.log || logger;
+
+  if (error instanceof ApiError) {
+    if (error.status >= 500) {
+      log.error('Request failed', { code: error.code, error });
+    } else {
+      log.warn('Request failed', { code: error.code, error: error.message });
+    }
+
+    if (error.retryAfter !== undefined) {
+      res.setHeader('Retry-After', String(error.retryAfter));
+    }
+    return sendError(res, error.status, error.code, error.message, {
+      retryAfter: error.retryAfter,
+      details: error instanceof InvalidOperationError ? error.details : undefined,
+    });
+  }
+
+  log.error('Unhandled error', { error });
+  sendError(res, 500, 'INTERNAL_ERROR', error.message || 'Internal server error');
 });
 
 // Start server
 app.listen(PORT, () => {
-  console.log(`🚀 Sheets IDE Backend running on port ${PORT}`);
-  console.log(`📊 Google Sheets API integration enabled`);
-  console.log(`🤖 AI Providers: Anthropic Claude, OpenAI GPT, Google Gemini`);
-  console.log(`🔐 OAuth 2.0 authentication configured`);
-  console.log(`💬 Session management enabled`);
-  console.log(`🔗 Health check: http://localhost:${PORT}/health`);
-  console.log(`📚 API Documentation: http://localhost:${PORT}/api/features`);
-  console.log(`📈 Session stats: http://localhost:${PORT}/api/stats`);
+  logger.info('Sheets IDE Backend running', {
+    port: PORT,
+    aiProviders: aiService.getProviderTypes(),
+    storage: storageConfig.backend,
+    health: `http://localhost:${PORT}/health`,
+    docs: `http://localhost:${PORT}/api/features`,
+    stats: `http://localhost:${PORT}/api/stats`,
+    metrics: `http://localhost:${PORT}/metrics`,
+  });
 });
 
 export default app;
\ No newline at end of file
@@ -1,73 +1,279 @@
 import { Anthropic } from '@anthropic-ai/sdk';
-import { ChatMessage, StreamingChatChunk } from '../types/shared';
+import { ChatMessage, GenerationOptions, ModelRef, StreamingChatChunk, TokenUsage, ToolCall, ToolResult } from '../types/shared';
+import { ToolDefinition, serializeToolResult } from './tools';
+import { ApiKeyStore } from './keys';
+import { getDefaultModel, getModel, resolveMaxTokens } from './models';
+import { DEFAULT_RETRY_OPTIONS, ResilientProvider, RetryOptions } from './failover';
+import { MockConfig, MockProvider, RecordingProvider } from './mock';
+import { readJSONStream } from '../utils/stream';
+import { Logger, logger } from '../utils/logger';
+
+export type AIProviderType = 'anthropic' | 'openai' | 'gemini' | 'openai-compatible' | 'mock';
+
+export const AI_PROVIDER_TYPES: AIProviderType[] = ['anthropic', 'openai', 'gemini', 'openai-compatible', 'mock'];
+
+export interface ChatOptions {
+  tools?: ToolDefinition[];
+  onToolCall?: (call: ToolCall) => Promise<ToolResult>;
+  signal?: AbortSignal; // Stops the upstream request; the stream then ends without an error
+  logger?: Logger; // The request's logger, so provider errors carry its request id
+}
 
 export interface AIProvider {
   name: string;
-  chat(messages: ChatMessage[], systemPrompt: string): AsyncGenerator<StreamingChatChunk>;
+  model: string;
+  chat(messages: ChatMessage[], systemPrompt: string, options?: ChatOptions): AsyncGenerator<StreamingChatChunk>;
+  /**
+   * Make a cheap authenticated request, throwing if the API key is rejected
+   */
+  verifyKey(): Promise<void>;
+}
+
+export interface ProviderOptions extends GenerationOptions {
+  apiKey?: string; // Overrides any saved or server-wide key
+  userId?: string; // Whose saved key to use
+}
+
+export interface AIServiceOptions {
+  keyStore?: ApiKeyStore; // Keys users have saved for themselves
+  serverKeys?: Partial<Record<AIProviderType, string>>; // Fallback keys for users without their own
+  retry?: Partial<RetryOptions>;
+  failover?: ModelRef[]; // Tried in order when the requested model fails; skipped without a key
+  openAICompatible?: OpenAICompatibleConfig; // Self-hosted endpoint; the provider is unavailable without it
+  mock?: MockConfig; // Enables the offline mock provider
+  recordFixturesDir?: string; // Save every real provider stream here as a mock fixture
+}
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string; // Up to and including the API version, e.g. http://localhost:11434/v1
+  model: string; // Used when a request does not choose one
+  apiKey?: string; // Sent when the user has no key of their own; many local servers need none
+  authHeader?: string; // Header that carries the key; Authorization sends it as a bearer token
+  timeoutMs?: number; // Time allowed for the server to start responding
+  supportsTools?: boolean; // Some local models cannot call tools
+}
+
+/**
+ * An error response from a provider's API, with the HTTP status when there was one
+ */
+export class AIProviderError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = 'AIProviderError';
+  }
+}
+
+// Timeouts, rate limits, overload (Anthropic's 529) and server-side failures
+const TRANSIENT_STATUSES = new Set([408, 409, 429, 500, 502, 503, 504, 529]);
+
+/**
+ * Whether a provider error is worth retrying
+ */
+export function isTransientError(error: any): boolean {
+  if (typeof error?.status === 'number') {
+    return TRANSIENT_STATUSES.has(error.status);
+  }
+
+  // Without a status the request never got a response, e.g. a reset connection or timeout
+  return ['APIConnectionError', 'APIConnectionTimeoutError'].includes(error?.name)
+    || /fetch failed|ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|socket hang up/i.test(error?.message || '');
+}
+
+// Upper bound on model -> tool -> model round trips within a single turn
+const MAX_TOOL_ITERATIONS = 8;
+
+// Appended when a turn reaches MAX_TOOL_ITERATIONS, since the model never sees the last round's results
+const TOOL_LIMIT_NOTICE = `\n\n[Stopped after ${MAX_TOOL_ITERATIONS} rounds of spreadsheet tool calls before the reply was finished. Send another message to continue.]`;
+
+/**
+ * Announce and execute each tool call, returning the results in call order
+ */
+async function* runToolCalls(
+  calls: ToolCall[],
+  onToolCall: (call: ToolCall) => Promise<ToolResult>
+): AsyncGenerator<StreamingChatChunk, ToolResult[]> {
+  const results: ToolResult[] = [];
+
+  for (const call of calls) {
+    yield {
+      type: 'tool_call',
+      toolCall: call,
+    };
+
+    const result = await onToolCall(call);
+    results.push(result);
+
+    yield {
+      type: 'tool_result',
+      toolResult: result,
+    };
+  }
+
+  return results;
+}
+
+/**
+ * Parse streamed tool arguments, tolerating empty input
+ */
+function parseToolArguments(json: string): Record<string, any> {
+  if (!json.trim()) return {};
+  return JSON.parse(json);
 }
 
 export class AnthropicProvider implements AIProvider {
   name = 'anthropic';
+  model: string;
   private client: Anthropic;
+  private generation: GenerationOptions;
 
-  constructor(apiKey: string) {
-    this.client = new Anthropic({ apiKey });
+  constructor(apiKey: string, generation: GenerationOptions = {}) {
+    // Retries are handled by AIService so they can fail over between providers
+    this.client = new Anthropic({ apiKey, maxRetries: 0 });
+    this.model = generation.model || getDefaultModel(this.name)!.id;
+    this.generation = generation;
   }
 
-  async *chat(messages: ChatMessage[], systemPrompt: string): AsyncGenerator<StreamingChatChunk> {
+  async *chat(messages: ChatMessage[], systemPrompt: string, options: ChatOptions = {}): AsyncGenerator<StreamingChatChunk> {
     try {
-      const anthropicMessages = messages.map(msg => ({
+      const anthropicMessages: Anthropic.MessageParam[] = messages.map(msg => ({
         role: msg.role as 'user' | 'assistant',
         content: msg.content,
       }));
 
-      const stream = await this.client.messages.create({
-        model: 'claude-3-5-sonnet-20241022',
-        max_tokens: 4000,
-        system: systemPrompt,
-        messages: anthropicMessages,
-        stream: true,
-      });
+      const tools: Anthropic.Tool[] | undefined = options.tools?.map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        input_schema: tool.parameters as Anthropic.Tool.InputSchema,
+      }));
 
       let fullResponse = '';
+      // Summed over every request in the tool loop
+      const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+
+      let answered = false;
+
+      for (let iteration = 0; iteration < MAX_TOOL_ITERATIONS; iteration++) {
+        // Decoded here rather than by the SDK so every provider shares one stream decoder
+        const response = await this.client.messages.create({
+          model: this.model,
+          max_tokens: resolveMaxTokens(this.name, this.model, this.generation.maxTokens),
+          ...(this.generation.temperature !== undefined ? { temperature: this.generation.temperature } : {}),
+          ...(this.generation.stopSequences?.length ? { stop_sequences: this.generation.stopSequences } : {}),
+          system: systemPrompt,
+          messages: anthropicMessages,
+          ...(tools?.length ? { tools } : {}),
+          stream: true,
+        }, { signal: options.signal }).asResponse();
+
+        let turnText = '';
+        const toolCalls: ToolCall[] = [];
+        let pendingTool: { id: string; name: string; json: string } | null = null;
+        // Output tokens are reported as a running total for the message
+        let turnOutputTokens = 0;
+
+        for await (const event of readJSONStream(response)) {
+          const chunk = event as Anthropic.RawMessageStreamEvent;
+          if (chunk.type === 'message_start') {
+            usage.inputTokens += chunk.message.usage.input_tokens;
+            turnOutputTokens = chunk.message.usage.output_tokens;
+          } else if (chunk.type === 'message_delta') {
+            turnOutputTokens = chunk.usage.output_tokens;
+          } else if (chunk.type === 'content_block_start' && chunk.content_block.type === 'tool_use') {
+            pendingTool = { id: chunk.content_block.id, name: chunk.content_block.name, json: '' };
+          } else if (chunk.type === 'content_block_delta' && chunk.delta.type === 'text_delta') {
+            const text = chunk.delta.text;
+            turnText += text;
+            fullResponse += text;
+            yield {
+              type: 'text',
+              content: text,
+            };
+          } else if (chunk.type === 'content_block_delta' && chunk.delta.type === 'input_json_delta') {
+            if (pendingTool) pendingTool.json += chunk.delta.partial_json;
+          } else if (chunk.type === 'content_block_stop' && pendingTool) {
+            toolCalls.push({
+              id: pendingTool.id,
+              name: pendingTool.name,
+              arguments: parseToolArguments(pendingTool.json),
+            });
+            pendingTool = null;
+          }
+        }
+        usage.outputTokens += turnOutputTokens;
+
+        if (toolCalls.length === 0 || !options.onToolCall) {
+          answered = true;
+          break;
+        }
 
-      for await (const chunk of stream) {
-        if (chunk.type === 'content_block_delta' && chunk.delta.type === 'text_delta') {
-          const text = chunk.delta.text;
-          fullResponse += text;
-          yield {
-            type: 'text',
-            content: text,
-          };
+        const assistantContent: Array<Anthropic.TextBlockParam | Anthropic.ToolUseBlockParam> = [];
+        if (turnText) {
+          assistantContent.push({ type: 'text', text: turnText });
         }
+        for (const call of toolCalls) {
+          assistantContent.push({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments });
+        }
+        anthropicMessages.push({ role: 'assistant', content: assistantContent });
+
+        const results = yield* runToolCalls(toolCalls, options.onToolCall);
+        anthropicMessages.push({
+          role: 'user',
+          content: results.map(result => ({
+            type: 'tool_result' as const,
+            tool_use_id: result.toolCallId,
+            content: serializeToolResult(result),
+            is_error: !result.success,
+          })),
+        });
+      }
+
+      if (!answered) {
+        fullResponse += TOOL_LIMIT_NOTICE;
+        yield { type: 'text', content: TOOL_LIMIT_NOTICE };
       }
 
       yield {
         type: 'complete',
         response: fullResponse,
+        usage,
       };
     } catch (error: any) {
-      console.error('Anthropic AI error:', error);
+      if (options.signal?.aborted) return;
+
+      (options.logger || logger).error('Anthropic AI error', { model: this.model, error });
       yield {
         type: 'error',
         error: error.message || 'AI service error',
+        retryable: isTransientError(error),
       };
     }
   }
+
+  async verifyKey(): Promise<void> {
+    await this.client.get('/v1/models');
+  }
 }
 
 export class OpenAIProvider implements AIProvider {
   name = 'openai';
-  private apiKey: string;
-
-  constructor(apiKey: string) {
+  model: string;
+  protected apiKey: string;
+  protected generation: GenerationOptions;
+  protected label = 'OpenAI'; // Used in error messages
+  protected baseUrl = 'https://api.openai.com/v1';
+  protected timeoutMs?: number;
+  protected supportsTools = true;
+
+  constructor(apiKey: string, generation: GenerationOptions = {}) {
     this.apiKey = apiKey;
+    this.model = generation.model || getDefaultModel(this.name)!.id;
+    this.generation = generation;
   }
 
-  async *chat(messages: ChatMessage[], systemPrompt: string): AsyncGenerator<StreamingChatChunk> {
+  async *chat(messages: ChatMessage[], systemPrompt: string, options: ChatOptions = {}): AsyncGenerator<StreamingChatChunk> {
     try {
       // Add system message to the beginning
-      const openaiMessages = [
+      const openaiMessages: any[] = [
         { role: 'system', content: systemPrompt },
         ...messages.map(msg => ({
           role: msg.role,
@@ -75,88 +281,208 @@ export class OpenAIProvider implements AIProvider {
         })),
       ];
 
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
-          'Content-Type': 'application/json',
+      const tools = !this.supportsTools ? undefined : options.tools?.map(tool => ({
+        type: 'function',
+        function: {
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.parameters,
         },
-        body: JSON.stringify({
-          model: 'gpt-4',
-          messages: openaiMessages,
-          stream: true,
-          max_tokens: 4000,
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error(`OpenAI API error: ${response.statusText}`);
-      }
-
-      const reader = response.body?.getReader();
-      if (!reader) {
-        throw new Error('No response body');
-      }
+      }));
 
       let fullResponse = '';
-      const decoder = new TextDecoder();
+      // Summed over every request in the tool loop
+      const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+      // Some compatible servers ignore stream_options and never send usage
+      let usageReported = false;
 
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
+      let answered = false;
 
-        const chunk = decoder.decode(value);
-        const lines = chunk.split('\n').filter(line => line.trim() !== '');
+      for (let iteration = 0; iteration < MAX_TOOL_ITERATIONS; iteration++) {
+        const response = await this.request('/chat/completions', {
+          model: this.model,
+          messages: openaiMessages,
+          ...(tools?.length ? { tools } : {}),
+          stream: true,
+          // Adds a final chunk with the token counts
+          stream_options: { include_usage: true },
+          max_tokens: resolveMaxTokens(this.name, this.model, this.generation.maxTokens),
+          ...(this.generation.temperature !== undefined ? { temperature: this.generation.temperature } : {}),
+          ...(this.generation.stopSequences?.length ? { stop: this.generation.stopSequences } : {}),
+        }, options.signal);
+
+        let turnText = '';
+        // Tool call deltas arrive keyed by index, with arguments split across chunks
+        const pendingTools: Array<{ id: string; name: string; json: string }> = [];
+
+        for await (const parsed of readJSONStream(response)) {
+          if (parsed.usage) {
+            usageReported = true;
+            usage.inputTokens += parsed.usage.prompt_tokens || 0;
+            usage.outputTokens += parsed.usage.completion_tokens || 0;
+          }
 
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            const data = line.slice(6);
-            if (data === '[DONE]') {
-              yield {
-                type: 'complete',
-                response: fullResponse,
-              };
-              return;
-            }
+          const delta = parsed.choices?.[0]?.delta;
+          const content = delta?.content;
+          if (content) {
+            turnText += content;
+            fullResponse += content;
+            yield {
+              type: 'text',
+              content,
+            };
+          }
 
-            try {
-              const parsed = JSON.parse(data);
-              const content = parsed.choices?.[0]?.delta?.content;
-              if (content) {
-                fullResponse += content;
-                yield {
-                  type: 'text',
-                  content,
-                };
-              }
-            } catch (e) {
-              // Skip invalid JSON
-            }
+          for (const toolDelta of delta?.tool_calls || []) {
+            const pending = pendingTools[toolDelta.index] ||= { id: '', name: '', json: '' };
+            if (toolDelta.id) pending.id = toolDelta.id;
+            if (toolDelta.function?.name) pending.name += toolDelta.function.name;
+            if (toolDelta.function?.arguments) pending.json += toolDelta.function.arguments;
           }
         }
+
+        const toolCalls: ToolCall[] = pendingTools.filter(Boolean).map(pending => ({
+          id: pending.id,
+          name: pending.name,
+          arguments: parseToolArguments(pending.json),
+        }));
+
+        if (toolCalls.length === 0 || !options.onToolCall) {
+          answered = true;
+          break;
+        }
+
+        openaiMessages.push({
+          role: 'assistant',
+          content: turnText || null,
+          tool_calls: toolCalls.map(call => ({
+            id: call.id,
+            type: 'function',
+            function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+          })),
+        });
+
+        const results = yield* runToolCalls(toolCalls, options.onToolCall);
+        for (const result of results) {
+          openaiMessages.push({
+            role: 'tool',
+            tool_call_id: result.toolCallId,
+            content: serializeToolResult(result),
+          });
+        }
       }
+
+      if (!answered) {
+        fullResponse += TOOL_LIMIT_NOTICE;
+        yield { type: 'text', content: TOOL_LIMIT_NOTICE };
+      }
+
+      yield {
+        type: 'complete',
+        response: fullResponse,
+        usage: usageReported ? usage : undefined,
+      };
     } catch (error: any) {
-      console.error('OpenAI error:', error);
+      if (options.signal?.aborted) return;
+
+      (options.logger || logger).error(`${this.label} error`, { model: this.model, error });
       yield {
         type: 'error',
-        error: error.message || 'OpenAI service error',
+        error: error.message || `${this.label} service error`,
+        retryable: isTransientError(error),
       };
     }
   }
+
+  async verifyKey(): Promise<void> {
+    await this.request('/models');
+  }
+
+  protected authHeaders(): Record<string, string> {
+    return { 'Authorization': `Bearer ${this.apiKey}` };
+  }
+
+  /**
+   * Call the API, POSTing the body as JSON when there is one. The timeout covers the wait for
+   * response headers, not the streamed body, so long answers are not cut off; the caller's
+   * signal covers both.
+   */
+  private async request(path: string, body?: any, signal?: AbortSignal): Promise<Response> {
+    const controller = new AbortController();
+    const timer = this.timeoutMs ? setTimeout(() => controller.abort(), this.timeoutMs) : undefined;
+    signal?.addEventListener('abort', () => controller.abort(), { once: true });
+    if (signal?.aborted) controller.abort();
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}${path}`, {
+        method: body ? 'POST' : 'GET',
+        headers: {
+          ...this.authHeaders(),
+          ...(body ? { 'Content-Type': 'application/json' } : {}),
+        },
+        body: body ? JSON.stringify(body) : undefined,
+        signal: controller.signal,
+      });
+    } catch (error: any) {
+      if (controller.signal.aborted && !signal?.aborted) {
+        throw new AIProviderError(`${this.label} API error: no response within ${this.timeoutMs}ms`, 408);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (!response.ok) {
+      throw new AIProviderError(`${this.label} API error: ${response.statusText}`, response.status);
+    }
+
+    return response;
+  }
+}
+
+/**
+ * Any server implementing OpenAI's chat completions API, such as Ollama, vLLM or LM Studio
+ */
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  name = 'openai-compatible';
+  protected label = 'OpenAI-compatible';
+  private authHeader: string;
+
+  constructor(config: OpenAICompatibleConfig, apiKey?: string, generation: GenerationOptions = {}) {
+    super(apiKey || config.apiKey || '', generation);
+    this.model = generation.model || config.model;
+    this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+    this.authHeader = config.authHeader || 'Authorization';
+    this.timeoutMs = config.timeoutMs;
+    this.supportsTools = config.supportsTools ?? true;
+  }
+
+  protected authHeaders(): Record<string, string> {
+    if (!this.apiKey) return {};
+
+    return this.authHeader.toLowerCase() === 'authorization'
+      ? { 'Authorization': `Bearer ${this.apiKey}` }
+      : { [this.authHeader]: this.apiKey };
+  }
 }
 
 export class GeminiProvider implements AIProvider {
   name = 'gemini';
+  model: string;
   private apiKey: string;
+  private generation: GenerationOptions;
 
-  constructor(apiKey: string) {
+  constructor(apiKey: string, generation: GenerationOptions = {}) {
     this.apiKey = apiKey;
+    this.model = generation.model || getDefaultModel(this.name)!.id;
+    this.generation = generation;
   }
 
-  async *chat(messages: ChatMessage[], systemPrompt: string): AsyncGenerator<StreamingChatChunk> {
+  async *chat(messages: ChatMessage[], systemPrompt: string, options: ChatOptions = {}): AsyncGenerator<StreamingChatChunk> {
     try {
       // Prepare messages for Gemini API
-      const geminiMessages = [
+      const geminiMessages: any[] = [
         { role: 'user', parts: [{ text: systemPrompt }] },
         ...messages.map(msg => ({
           role: msg.role === 'assistant' ? 'model' : 'user',
@@ -164,76 +490,131 @@ export class GeminiProvider implements AIProvider {
         })),
       ];
 
-      const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-pro:streamGenerateContent?key=${this.apiKey}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          contents: geminiMessages,
-          generationConfig: {
-            maxOutputTokens: 4000,
-            temperature: 0.7,
+      const tools = options.tools?.length
+        ? [{
+          functionDeclarations: options.tools.map(tool => ({
+            name: tool.name,
+            description: tool.description,
+            parameters: tool.parameters,
+          })),
+        }]
+        : undefined;
+
+      let fullResponse = '';
+      // Summed over every request in the tool loop
+      const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+
+      let answered = false;
+
+      for (let iteration = 0; iteration < MAX_TOOL_ITERATIONS; iteration++) {
+        const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${this.model}:streamGenerateContent?alt=sse&key=${this.apiKey}`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
           },
-        }),
-      });
+          body: JSON.stringify({
+            contents: geminiMessages,
+            ...(tools ? { tools } : {}),
+            generationConfig: {
+              maxOutputTokens: resolveMaxTokens(this.name, this.model, this.generation.maxTokens),
+              temperature: this.generation.temperature ?? 0.7,
+              ...(this.generation.stopSequences?.length ? { stopSequences: this.generation.stopSequences } : {}),
+            },
+          }),
+          signal: options.signal,
+        });
+
+        if (!response.ok) {
+          throw new AIProviderError(`Gemini API error: ${response.statusText}`, response.status);
+        }
 
-      if (!response.ok) {
-        throw new Error(`Gemini API error: ${response.statusText}`);
-      }
+        const modelParts: any[] = [];
+        const toolCalls: ToolCall[] = [];
+        // Each chunk repeats the running totals for the request
+        let turnUsage = { promptTokenCount: 0, candidatesTokenCount: 0 };
 
-      const reader = response.body?.getReader();
-      if (!reader) {
-        throw new Error('No response body');
-      }
+        for await (const parsed of readJSONStream(response)) {
+          if (parsed.usageMetadata) {
+            turnUsage = { ...turnUsage, ...parsed.usageMetadata };
+          }
 
-      let fullResponse = '';
-      const decoder = new TextDecoder();
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        const chunk = decoder.decode(value);
-        const lines = chunk.split('\n').filter(line => line.trim() !== '');
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            const data = line.slice(6);
-            try {
-              const parsed = JSON.parse(data);
-              const content = parsed.candidates?.[0]?.content?.parts?.[0]?.text;
-              if (content) {
-                fullResponse += content;
-                yield {
-                  type: 'text',
-                  content,
-                };
-              }
-            } catch (e) {
-              // Skip invalid JSON
+          for (const part of parsed.candidates?.[0]?.content?.parts || []) {
+            if (part.text) {
+              fullResponse += part.text;
+              modelParts.push({ text: part.text });
+              yield {
+                type: 'text',
+                content: part.text,
+              };
+            } else if (part.functionCall) {
+              // Gemini does not assign call ids, so derive one from the position
+              modelParts.push({ functionCall: part.functionCall });
+              toolCalls.push({
+                id: `call_${iteration}_${toolCalls.length}`,
+                name: part.functionCall.name,
+                arguments: part.functionCall.args || {},
+              });
             }
           }
         }
+        usage.inputTokens += turnUsage.promptTokenCount || 0;
+        usage.outputTokens += turnUsage.candidatesTokenCount || 0;
+
+        if (toolCalls.length === 0 || !options.onToolCall) {
+          answered = true;
+          break;
+        }
+
+        geminiMessages.push({ role: 'model', parts: modelParts });
+
+        const results = yield* runToolCalls(toolCalls, options.onToolCall);
+        geminiMessages.push({
+          role: 'user',
+          parts: results.map(result => ({
+            functionResponse: {
+              name: result.name,
+              response: result.success ? { result: result.result } : { error: result.error, details: result.details },
+            },
+          })),
+        });
+      }
+
+      if (!answered) {
+        fullResponse += TOOL_LIMIT_NOTICE;
+        yield { type: 'text', content: TOOL_LIMIT_NOTICE };
       }
 
       yield {
         type: 'complete',
         response: fullResponse,
+        usage,
       };
     } catch (error: any) {
-      console.error('Gemini error:', error);
+      if (options.signal?.aborted) return;
+
+      (options.logger || logger).error('Gemini error', { model: this.model, error });
       yield {
         type: 'error',
         error: error.message || 'Gemini service error',
+        retryable: isTransientError(error),
       };
     }
   }
+
+  async verifyKey(): Promise<void> {
+    const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models?key=${this.apiKey}`);
+
+    if (!response.ok) {
+      throw new AIProviderError(`Gemini API error: ${response.statusText}`, response.status);
+    }
+  }
 }
 
 export class AIService {
   private providers: Map<string, AIProvider> = new Map();
 
+  constructor(private options: AIServiceOptions = {}) {}
+
   addProvider(provider: AIProvider): void {
     this.providers.set(provider.name, provider);
   }
@@ -242,26 +623,90 @@ export class AIService {
     return this.providers.get(name);
   }
 
-  createProvider(type: 'anthropic' | 'openai' | 'gemini', apiKey: string): AIProvider {
-    switch (type) {
-      case 'anthropic':
-        return new AnthropicProvider(apiKey);
-      case 'openai':
-        return new OpenAIProvider(apiKey);
-      case 'gemini':
-        return new GeminiProvider(apiKey);
-      default:
-        throw new Error(`Unknown AI provider type: ${type}`);
+  /**
+   * Create a provider client. Without an explicit key, the user's saved key is used,
+   * then the server-wide key if one is configured. Transient errors are retried, then
+   * the configured failover models the user has keys for are tried in order.
+   */
+  createProvider(type: AIProviderType, options: ProviderOptions = {}): AIProvider {
+    const { apiKey, userId, ...generation } = options;
+    const resolvedKey = apiKey || this.resolveApiKey(type, userId);
+    if (!resolvedKey && this.requiresKey(type)) {
+      throw new Error(`No API key available for ${type}`);
+    }
+
+    const primary = this.createProviderWithKey(type, resolvedKey || '', generation);
+    const alternates = this.createFailoverProviders(primary, options);
+    const provider = new ResilientProvider([primary, ...alternates], { ...DEFAULT_RETRY_OPTIONS, ...this.options.retry });
+
+    // Recording replays of the mock would only copy its fixtures
+    return this.options.recordFixturesDir && type !== 'mock'
+      ? new RecordingProvider(provider, this.options.recordFixturesDir)
+      : provider;
+  }
+
+  /**
+   * Find the key to use for a provider when the request does not supply one
+   */
+  resolveApiKey(type: AIProviderType, userId?: string): string | undefined {
+    return (userId && this.options.keyStore?.getKey(userId, type)) || this.options.serverKeys?.[type];
+  }
+
+  /**
+   * Provider types this server can use; the OpenAI-compatible and mock providers have to be configured
+   */
+  getProviderTypes(): AIProviderType[] {
+    return AI_PROVIDER_TYPES.filter(type => {
+      if (type === 'openai-compatible') return !!this.options.openAICompatible;
+      if (type === 'mock') return !!this.options.mock;
+      return true;
+    });
+  }
+
+  /**
+   * Whether a provider can be used without a key in the request
+   */
+  hasCredentials(type: AIProviderType, userId?: string): boolean {
+    return !!this.resolveApiKey(type, userId) || !this.requiresKey(type);
+  }
+
+  /**
+   * Whether the server has its own key for a provider
+   */
+  hasServerKey(type: AIProviderType): boolean {
+    return !!this.options.serverKeys?.[type];
+  }
+
+  /**
+   * Check an API key against the provider, returning the error message if it is rejected
+   */
+  async testApiKey(type: AIProviderType, apiKey: string): Promise<{ valid: boolean; error?: string }> {
+    try {
+      await this.createProviderWithKey(type, apiKey).verifyKey();
+      return { valid: true };
+    } catch (error: any) {
+      return { valid: false, error: error.message || 'API key was rejected' };
     }
   }
 
-  buildSheetsSystemPrompt(spreadsheetId: string, spreadsheetInfo?: any): string {
+  /**
+   * Append a summary of earlier conversation turns to a system prompt
+   */
+  withConversationSummary(systemPrompt: string, summary: string): string {
+    return `${systemPrompt}
+
+Summary of earlier conversation (older messages are not shown verbatim):
+${summary}`;
+  }
+
+  buildSheetsSystemPrompt(spreadsheetId: string, spreadsheetInfo?: any, sheetContext?: string): string {
     return `You are Sheets IDE, an AI assistant for Google Sheets automation.
 
 You help users automate spreadsheet tasks through natural conversation. You can:
 - Read and analyze data from spreadsheet ranges
 - Write data to specific cells or ranges
-- Create new sheets within the spreadsheet
+- Create, rename, delete, duplicate, hide and reorder sheets
+- Insert and delete rows and columns, sort ranges, merge cells and freeze panes
 - Generate and set formulas
 - Format cells with colors, fonts, and styles
 - Provide insights and analysis of spreadsheet data
@@ -269,9 +714,68 @@ You help users automate spreadsheet tasks through natural conversation. You can:
 Current Spreadsheet ID: ${spreadsheetId}
 ${spreadsheetInfo ? `Spreadsheet Title: ${spreadsheetInfo.title}` : ''}
 ${spreadsheetInfo?.sheets ? `Available Sheets: ${spreadsheetInfo.sheets.map((s: any) => s.title).join(', ')}` : ''}
+${sheetContext ? `\nSheet contents (headers, inferred column types and sample rows; read the sheet for anything else):\n${sheetContext}\n` : ''}
 
-When users ask you to perform actions on the spreadsheet, explain what you would do and ask for confirmation before making changes. Be conversational and helpful, providing clear guidance on spreadsheet automation tasks.
+You have tools to read ranges, write values, set formulas, format cells, insert and delete rows and columns, sort ranges, merge cells, and create, rename, delete, duplicate, hide, reorder and freeze sheets in this spreadsheet. Use the sheet contents above to target the right columns, and use read_range to look at any data not shown rather than guessing at its layout. Always qualify ranges with the sheet name (e.g. 'Sheet1!A1:C10').
 
-If you need to perform actual operations on the spreadsheet, describe the specific actions you would take (like reading range A1:C10, writing data to B2:B5, creating a new sheet, etc.).`;
+Every tool other than read_range changes the spreadsheet, and those changes are not applied immediately: they are queued for the user to approve or reject. Tell the user what you have proposed rather than claiming the change is already made. Be conversational and helpful, providing clear guidance on spreadsheet automation tasks.`;
   }
-}
\ No newline at end of file
+
+  private createProviderWithKey(type: AIProviderType, apiKey: string, generation: GenerationOptions = {}): AIProvider {
+    switch (type) {
+      case 'anthropic':
+        return new AnthropicProvider(apiKey, generation);
+      case 'openai':
+        return new OpenAIProvider(apiKey, generation);
+      case 'gemini':
+        return new GeminiProvider(apiKey, generation);
+      case 'openai-compatible':
+        if (!this.options.openAICompatible) {
+          throw new Error('The OpenAI-compatible provider is not configured');
+        }
+        return new OpenAICompatibleProvider(this.options.openAICompatible, apiKey, generation);
+      case 'mock':
+        if (!this.options.mock) {
+          throw new Error('The mock provider is not enabled');
+        }
+        return new MockProvider(this.options.mock, generation.model);
+      default:
+        throw new Error(`Unknown AI provider type: ${type}`);
+    }
+  }
+
+  /**
+   * Providers for the failover list, skipping the primary model and any without a key.
+   * Generation options are capped to what each alternate model accepts.
+   */
+  private createFailoverProviders(primary: AIProvider, options: ProviderOptions): AIProvider[] {
+    const { apiKey, userId, ...generation } = options;
+    const alternates: AIProvider[] = [];
+
+    for (const ref of this.options.failover || []) {
+      const type = ref.provider as AIProviderType;
+      const model = getModel(type, ref.model);
+      if (!model || (type === primary.name && model.id === primary.model)) continue;
+
+      // A key sent with the request only applies to its own provider
+      const key = (type === primary.name && apiKey) || this.resolveApiKey(type, userId);
+      if (!key && this.requiresKey(type)) continue;
+
+      alternates.push(this.createProviderWithKey(type, key || '', {
+        ...generation,
+        model: model.id,
+        temperature: generation.temperature !== undefined ? Math.min(generation.temperature, model.maxTemperature) : undefined,
+        maxTokens: generation.maxTokens !== undefined ? Math.min(generation.maxTokens, model.maxOutputTokens) : undefined,
+      }));
+    }
+
+    return alternates;
+  }
+
+  /**
+   * Self-hosted endpoints often need no key, and have a configured one when they do; the mock needs none
+   */
+  private requiresKey(type: AIProviderType): boolean {
+    return type !== 'openai-compatible' && type !== 'mock';
+  }
+}
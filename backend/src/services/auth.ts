@@ -1,4 +1,8 @@
 import { OAuth2Client } from 'google-auth-library';
+import type { TokenVault } from './vault';
+import { logger } from '../utils/logger';
+import { sendError } from '../utils/response';
+import { ApiError, fromGoogleError, fromGoogleResponse } from '../utils/errors';
 
 export interface AuthConfig {
   clientId: string;
@@ -6,6 +10,27 @@ export interface AuthConfig {
   redirectUri: string;
 }
 
+/**
+ * The Google account behind an access token
+ */
+export interface UserIdentity {
+  id: string;
+  email?: string;
+  name?: string;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: UserIdentity;
+      accessToken?: string;
+    }
+  }
+}
+
+// Opaque app session issued to the browser in place of Google tokens
+export const SESSION_COOKIE = 'sheets_ide_session';
+
 export interface TokenInfo {
   accessToken: string;
   refreshToken?: string;
@@ -16,6 +41,8 @@ export interface TokenInfo {
 export class AuthService {
   private oauth2Client: OAuth2Client;
   private config: AuthConfig;
+  private identityCache = new Map<string, { user: UserIdentity; expiresAt: number }>();
+  private readonly IDENTITY_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
 
   constructor(config: AuthConfig) {
     this.config = config;
@@ -58,8 +85,8 @@ export class AuthService {
         scope: tokens.scope || undefined,
       };
     } catch (error: any) {
-      console.error('Error exchanging code for tokens:', error);
-      throw new Error(`Failed to exchange authorization code: ${error.message}`);
+      logger.error('Error exchanging code for tokens', { error });
+      throw fromGoogleError(error, 'Failed to exchange authorization code');
     }
   }
 
@@ -68,11 +95,13 @@ export class AuthService {
    */
   async refreshAccessToken(refreshToken: string): Promise<TokenInfo> {
     try {
-      this.oauth2Client.setCredentials({
+      // A client per call, since refreshes for different users can run concurrently
+      const client = new OAuth2Client(this.config.clientId, this.config.clientSecret, this.config.redirectUri);
+      client.setCredentials({
         refresh_token: refreshToken,
       });
 
-      const { credentials } = await this.oauth2Client.refreshAccessToken();
+      const { credentials } = await client.refreshAccessToken();
       
       return {
         accessToken: credentials.access_token!,
@@ -81,8 +110,8 @@ export class AuthService {
         scope: credentials.scope || undefined,
       };
     } catch (error: any) {
-      console.error('Error refreshing access token:', error);
-      throw new Error(`Failed to refresh access token: ${error.message}`);
+      logger.error('Error refreshing access token', { error });
+      throw fromGoogleError(error, 'Failed to refresh access token');
     }
   }
 
@@ -90,26 +119,53 @@ export class AuthService {
    * Verify and get user info from access token
    */
   async getUserInfo(accessToken: string): Promise<any> {
-    try {
-      this.oauth2Client.setCredentials({
-        access_token: accessToken,
-      });
+    this.oauth2Client.setCredentials({
+      access_token: accessToken,
+    });
 
-      const response = await fetch('https://www.googleapis.com/oauth2/v2/userinfo', {
+    let response: Response;
+    try {
+      response = await fetch('https://www.googleapis.com/oauth2/v2/userinfo', {
         headers: {
           Authorization: `Bearer ${accessToken}`,
         },
       });
+    } catch (error: any) {
+      logger.error('Error getting user info', { error });
+      throw fromGoogleError(error, 'Failed to get user info');
+    }
 
-      if (!response.ok) {
-        throw new Error(`Failed to get user info: ${response.statusText}`);
-      }
+    if (!response.ok) {
+      throw fromGoogleResponse(response, 'Failed to get user info');
+    }
 
-      return await response.json();
-    } catch (error: any) {
-      console.error('Error getting user info:', error);
-      throw new Error(`Failed to get user info: ${error.message}`);
+    return await response.json();
+  }
+
+  /**
+   * Resolve the Google account for an access token, caching the lookup briefly so
+   * authenticated routes do not each call the userinfo endpoint
+   */
+  async getUserIdentity(accessToken: string): Promise<UserIdentity> {
+    const now = Date.now();
+    const cached = this.identityCache.get(accessToken);
+    if (cached && cached.expiresAt > now) {
+      return cached.user;
+    }
+
+    const userInfo = await this.getUserInfo(accessToken);
+    if (!userInfo?.id) {
+      throw new Error('Failed to get user info: response has no user id');
+    }
+
+    const user: UserIdentity = { id: String(userInfo.id), email: userInfo.email, name: userInfo.name };
+
+    for (const [token, entry] of this.identityCache.entries()) {
+      if (entry.expiresAt <= now) this.identityCache.delete(token);
     }
+    this.identityCache.set(accessToken, { user, expiresAt: now + this.IDENTITY_CACHE_TTL });
+
+    return user;
   }
 
   /**
@@ -120,7 +176,7 @@ export class AuthService {
       const response = await fetch(`https://www.googleapis.com/oauth2/v1/tokeninfo?access_token=${accessToken}`);
       return response.ok;
     } catch (error) {
-      console.error('Error validating token:', error);
+      logger.error('Error validating token', { error });
       return false;
     }
   }
@@ -145,8 +201,8 @@ export class AuthService {
         },
       });
     } catch (error: any) {
-      console.error('Error revoking token:', error);
-      throw new Error(`Failed to revoke token: ${error.message}`);
+      logger.error('Error revoking token', { error });
+      throw fromGoogleError(error, 'Failed to revoke token');
     }
   }
 }
@@ -158,10 +214,7 @@ export function requireAuth(req: any, res: any, next: any) {
   const authHeader = req.headers.authorization;
   
   if (!authHeader || !authHeader.startsWith('Bearer ')) {
-    return res.status(401).json({
-      success: false,
-      error: 'Missing or invalid authorization header',
-    });
+    return sendError(res, 401, 'UNAUTHENTICATED', 'Missing or invalid authorization header');
   }
 
   const accessToken = authHeader.substring(7);
@@ -169,6 +222,45 @@ export function requireAuth(req: any, res: any, next: any) {
   next();
 }
 
+/**
+ * Middleware that resolves the caller's Google identity and a valid access token, setting
+ * req.user and req.accessToken. Browsers use the app session cookie, whose token is refreshed
+ * from the vault when it expires; other clients may send their own token as a bearer header.
+ */
+export function requireUser(authService: AuthService, vault: TokenVault) {
+  return async (req: any, res: any, next: any) => {
+    try {
+      const sessionToken = readCookie(req, SESSION_COOKIE);
+
+      if (sessionToken) {
+        const credentials = await vault.getCredentials(sessionToken);
+        if (!credentials) {
+          return sendError(res, 401, 'UNAUTHENTICATED', 'Session has expired, please sign in again');
+        }
+
+        req.user = credentials.user;
+        req.accessToken = credentials.accessToken;
+        return next();
+      }
+
+      const accessToken = extractAccessToken(req);
+      if (!accessToken) {
+        return sendError(res, 401, 'UNAUTHENTICATED', 'Not signed in');
+      }
+
+      req.user = await authService.getUserIdentity(accessToken);
+      req.accessToken = accessToken;
+      next();
+    } catch (error: any) {
+      // Google being unreachable or over quota is not the caller's fault
+      if (error instanceof ApiError && error.status !== 401) {
+        return next(error);
+      }
+      sendError(res, 401, 'UNAUTHENTICATED', error.message || 'Invalid access token');
+    }
+  };
+}
+
 /**
  * Extract access token from request
  */
@@ -180,4 +272,27 @@ export function extractAccessToken(req: any): string | null {
   }
 
   return authHeader.substring(7);
+}
+
+/**
+ * Read a cookie from the request's Cookie header
+ */
+export function readCookie(req: any, name: string): string | null {
+  const header: string | undefined = req.headers.cookie;
+  if (!header) return null;
+
+  for (const part of header.split(';')) {
+    const separator = part.indexOf('=');
+    if (separator < 0) continue;
+
+    if (part.slice(0, separator).trim() === name) {
+      try {
+        return decodeURIComponent(part.slice(separator + 1).trim());
+      } catch {
+        return null;
+      }
+    }
+  }
+
+  return null;
 }
\ No newline at end of file
@@ -0,0 +1,166 @@
+import { AIProvider } from './ai';
+import { getContextWindow, resolveMaxTokens } from './models';
+import { ConversationSummary } from './session';
+import { ToolDefinition } from './tools';
+import { ChatMessage, TokenUsage } from '../types/shared';
+import { estimateMessageTokens, estimateTokens, estimateUsage } from '../utils/tokens';
+import { logger } from '../utils/logger';
+
+export interface CompactionOptions {
+  minRecentMessages: number; // Messages always kept verbatim
+  targetRatio: number; // Share of the history budget kept after compacting, so it is not redone every turn
+}
+
+// What else the chat request will send, which the history has to leave room for
+export interface CompactionRequest {
+  maxTokens?: number; // The request's output limit; the model's default when unset
+  tools?: ToolDefinition[];
+}
+
+export interface CompactionResult {
+  messages: ChatMessage[];
+  summary?: ConversationSummary;
+  summaryUpdated: boolean;
+  usage?: TokenUsage; // Spent on summarizing, to be counted like any other response
+}
+
+const DEFAULT_OPTIONS: CompactionOptions = {
+  minRecentMessages: 4,
+  targetRatio: 0.5,
+};
+
+// Room set aside for the summary itself within the prompt
+const SUMMARY_TOKEN_ALLOWANCE = 1000;
+
+const SUMMARY_SYSTEM_PROMPT = `You condense conversations between a user and Sheets IDE, an AI assistant for Google Sheets.
+Write a concise summary that preserves what later turns depend on: the user's goals, sheet and range names, column layouts, formulas, decisions made, changes proposed or applied, and open questions.
+Reply with the summary only.`;
+
+export class ConversationCompactor {
+  private options: CompactionOptions;
+
+  constructor(options: Partial<CompactionOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Fit a conversation into the provider's context window. Recent turns are kept verbatim and
+   * older ones are replaced by a summary, reusing the stored summary where it already covers them.
+   */
+  async compact(
+    provider: AIProvider,
+    messages: ChatMessage[],
+    systemPrompt: string,
+    summary?: ConversationSummary,
+    request: CompactionRequest = {}
+  ): Promise<CompactionResult> {
+    // Messages already folded into the summary never go back to the model verbatim
+    const covered = Math.min(summary?.messageCount || 0, messages.length);
+    const unsummarized = messages.slice(covered);
+    const budget = this.historyBudget(provider, systemPrompt, request);
+
+    if (estimateMessageTokens(unsummarized, provider.name) <= budget) {
+      return { messages: unsummarized, summary, summaryUpdated: false };
+    }
+
+    const cut = covered + this.findCut(unsummarized, Math.floor(budget * this.options.targetRatio), provider.name);
+    if (cut <= covered) {
+      return { messages: unsummarized, summary, summaryUpdated: false };
+    }
+
+    try {
+      const { content, usage } = await this.summarize(provider, summary?.content, messages.slice(covered, cut));
+      const updated: ConversationSummary = { content, messageCount: cut, updatedAt: new Date() };
+      return { messages: messages.slice(cut), summary: updated, summaryUpdated: true, usage };
+    } catch (error: any) {
+      // Without a summary the older turns are dropped rather than failing the request
+      logger.warn('Could not summarize conversation history', { error: error.message });
+      return { messages: messages.slice(cut), summary, summaryUpdated: false };
+    }
+  }
+
+  /**
+   * Tokens available for conversation history once the system prompt, tool definitions
+   * and reply are accounted for
+   */
+  private historyBudget(provider: AIProvider, systemPrompt: string, request: CompactionRequest): number {
+    const contextWindow = getContextWindow(provider.name, provider.model);
+    // Providers wrap the schemas differently; their JSON is close enough for budgeting
+    const toolTokens = request.tools?.length ? estimateTokens(JSON.stringify(request.tools), provider.name) : 0;
+
+    return contextWindow
+      - resolveMaxTokens(provider.name, provider.model, request.maxTokens)
+      - estimateTokens(systemPrompt, provider.name)
+      - toolTokens
+      - SUMMARY_TOKEN_ALLOWANCE;
+  }
+
+  /**
+   * Index of the first message to keep verbatim. Walks back from the newest message while the
+   * budget allows, then moves forward to a user turn so the kept history starts with the user.
+   */
+  private findCut(messages: ChatMessage[], budget: number, provider: string): number {
+    let cut = messages.length;
+    let used = 0;
+
+    while (cut > 0) {
+      const cost = estimateMessageTokens([messages[cut - 1]], provider);
+      const mustKeep = messages.length - cut < this.options.minRecentMessages;
+      if (!mustKeep && used + cost > budget) break;
+      used += cost;
+      cut--;
+    }
+
+    while (cut < messages.length - 1 && messages[cut].role !== 'user') {
+      cut++;
+    }
+
+    return cut;
+  }
+
+  /**
+   * Ask the provider to fold a run of messages into the existing summary
+   */
+  private async summarize(
+    provider: AIProvider,
+    previousSummary: string | undefined,
+    messages: ChatMessage[]
+  ): Promise<{ content: string; usage: TokenUsage }> {
+    const transcript = messages
+      .map(message => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`)
+      .join('\n\n');
+
+    const request = [
+      previousSummary ? `Summary of the conversation so far:\n${previousSummary}\n` : '',
+      `Conversation to ${previousSummary ? 'add to the summary' : 'summarize'}:\n${transcript}`,
+    ].join('\n');
+
+    let content = '';
+    let usage: TokenUsage | undefined;
+    const summaryMessage: ChatMessage = {
+      id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
+      role: 'user',
+      content: request,
+      timestamp: new Date(),
+    };
+
+    for await (const chunk of provider.chat([summaryMessage], SUMMARY_SYSTEM_PROMPT)) {
+      if (chunk.type === 'text' && chunk.content) {
+        content += chunk.content;
+      } else if (chunk.type === 'complete') {
+        usage = chunk.usage;
+      } else if (chunk.type === 'error') {
+        throw new Error(chunk.error || 'Summarization failed');
+      }
+    }
+
+    if (!content.trim()) {
+      throw new Error('Summarization returned no text');
+    }
+
+    return {
+      content: content.trim(),
+      usage: usage || estimateUsage([summaryMessage], SUMMARY_SYSTEM_PROMPT, content, provider.name),
+    };
+  }
+}
@@ -0,0 +1,245 @@
+import { SheetsService } from './sheets';
+import { SpreadsheetInfo, SheetInfo } from '../types/shared';
+import { cellAddress, indexToColumn, quoteSheetName } from '../utils/range';
+import { estimateTokens } from '../utils/tokens';
+import { logger } from '../utils/logger';
+
+export interface SheetContextOptions {
+  tokenBudget: number; // Upper bound on tokens spent describing sheet contents
+  sampleRows: number; // Data rows shown per sheet, after the header
+  maxSheets: number; // Sheets read per request
+  scanRows: number; // Rows read per sheet to infer types and the used range
+}
+
+export type ColumnType = 'number' | 'text' | 'date' | 'boolean' | 'mixed' | 'empty';
+
+export interface ColumnSummary {
+  column: string;
+  header?: string;
+  type: ColumnType;
+}
+
+export interface SheetSummary {
+  title: string;
+  usedRange?: string;
+  rowCount: number;
+  truncated: boolean; // More rows exist beyond those scanned
+  columns: ColumnSummary[];
+  sampleRows: any[][];
+  relevance: number;
+}
+
+const DEFAULT_OPTIONS: SheetContextOptions = {
+  tokenBudget: 2000,
+  sampleRows: 3,
+  maxSheets: 5,
+  scanRows: 200,
+};
+
+const DATE_PATTERN = /^(\d{4}-\d{1,2}-\d{1,2}|\d{1,2}\/\d{1,2}\/\d{2,4})([ T]\d{1,2}:\d{2}(:\d{2})?)?$/;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'this', 'that', 'from', 'into', 'what', 'which', 'show', 'make',
+  'can', 'you', 'please', 'all', 'are', 'sheet', 'sheets', 'column', 'columns', 'row', 'rows', 'cell', 'cells',
+]);
+
+export class SheetContextService {
+  private options: SheetContextOptions;
+
+  constructor(options: Partial<SheetContextOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Describe the contents of the sheets most relevant to a message, within the token budget.
+   * allowRead is asked before each sheet is read, so reads can be charged to rate limits.
+   */
+  async buildContext(
+    sheetsService: SheetsService,
+    spreadsheetInfo: SpreadsheetInfo,
+    message: string,
+    allowRead: () => boolean = () => true
+  ): Promise<string> {
+    const summaries = await this.summarizeSheets(sheetsService, spreadsheetInfo, message, allowRead);
+    const sections: string[] = [];
+    let remaining = this.options.tokenBudget;
+
+    for (const summary of summaries) {
+      // Fall back to just the column layout when samples do not fit
+      const full = this.formatSummary(summary, true);
+      const compact = this.formatSummary(summary, false);
+      const section = estimateTokens(full) <= remaining ? full : estimateTokens(compact) <= remaining ? compact : null;
+
+      if (!section) break;
+      sections.push(section);
+      remaining -= estimateTokens(section);
+    }
+
+    return sections.join('\n\n');
+  }
+
+  /**
+   * Read and summarize the most relevant sheets, most relevant first. Sheets allowRead
+   * refuses are left out.
+   */
+  async summarizeSheets(
+    sheetsService: SheetsService,
+    spreadsheetInfo: SpreadsheetInfo,
+    message: string,
+    allowRead: () => boolean = () => true
+  ): Promise<SheetSummary[]> {
+    const terms = this.extractTerms(message);
+
+    // Titles are all we know before reading, so use them to pick which sheets to read
+    const candidates = spreadsheetInfo.sheets
+      .map((sheet, index) => ({ sheet, index, score: this.scoreTitle(sheet.title, message, terms) }))
+      .sort((a, b) => b.score - a.score || a.index - b.index)
+      .slice(0, this.options.maxSheets)
+      .filter(() => allowRead());
+
+    const summaries = await Promise.all(candidates.map(async ({ sheet, score }) => {
+      try {
+        const summary = await this.summarizeSheet(sheetsService, spreadsheetInfo.id, sheet);
+        summary.relevance = score + this.scoreHeaders(summary.columns, terms);
+        return summary;
+      } catch (error: any) {
+        logger.warn('Could not read sheet for context', { sheet: sheet.title, error: error.message });
+        return null;
+      }
+    }));
+
+    return summaries
+      .filter((summary): summary is SheetSummary => summary !== null)
+      .sort((a, b) => b.relevance - a.relevance);
+  }
+
+  /**
+   * Read the top of a sheet and infer its header row, column types and used range
+   */
+  private async summarizeSheet(sheetsService: SheetsService, spreadsheetId: string, sheet: SheetInfo): Promise<SheetSummary> {
+    const lastColumn = indexToColumn(Math.max(sheet.columnCount, 1) - 1);
+    const scanRows = Math.min(this.options.scanRows, Math.max(sheet.rowCount, 1));
+    const { values } = await sheetsService.readRange(spreadsheetId, `${quoteSheetName(sheet.title)}!A1:${lastColumn}${scanRows}`);
+
+    const rows = values.filter(row => row.some(cell => !this.isEmpty(cell)));
+    const width = Math.max(0, ...values.map(row => row.length));
+
+    if (rows.length === 0 || width === 0) {
+      return { title: sheet.title, rowCount: 0, truncated: false, columns: [], sampleRows: [], relevance: 0 };
+    }
+
+    const hasHeader = this.looksLikeHeader(values[0], values.slice(1));
+    const dataRows = hasHeader ? values.slice(1) : values;
+
+    const columns: ColumnSummary[] = [];
+    for (let c = 0; c < width; c++) {
+      columns.push({
+        column: indexToColumn(c),
+        header: hasHeader && !this.isEmpty(values[0][c]) ? String(values[0][c]) : undefined,
+        type: this.inferType(dataRows.map(row => row[c])),
+      });
+    }
+
+    return {
+      title: sheet.title,
+      usedRange: `${quoteSheetName(sheet.title)}!A1:${cellAddress(values.length - 1, width - 1)}`,
+      rowCount: values.length,
+      truncated: values.length >= scanRows && sheet.rowCount > scanRows,
+      columns,
+      sampleRows: dataRows.filter(row => row.some(cell => !this.isEmpty(cell))).slice(0, this.options.sampleRows),
+      relevance: 0,
+    };
+  }
+
+  /**
+   * Render a sheet summary for the system prompt
+   */
+  private formatSummary(summary: SheetSummary, includeSamples: boolean): string {
+    if (summary.columns.length === 0) {
+      return `Sheet "${summary.title}": empty`;
+    }
+
+    const lines = [
+      `Sheet "${summary.title}" (used range ${summary.usedRange}${summary.truncated ? ' and beyond' : ''}, ${summary.rowCount}${summary.truncated ? '+' : ''} rows)`,
+      `Columns: ${summary.columns.map(col => `${col.column}${col.header ? ` "${col.header}"` : ''} (${col.type})`).join(', ')}`,
+    ];
+
+    if (includeSamples && summary.sampleRows.length > 0) {
+      lines.push('Sample rows:');
+      for (const row of summary.sampleRows) {
+        lines.push(`  ${summary.columns.map((_, c) => this.isEmpty(row[c]) ? '' : String(row[c])).join(' | ')}`);
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Treat the first row as a header when it is all text and the rows below are not
+   */
+  private looksLikeHeader(firstRow: any[], rest: any[][]): boolean {
+    const cells = firstRow.filter(cell => !this.isEmpty(cell));
+    if (cells.length === 0 || !cells.every(cell => typeof cell === 'string')) return false;
+    if (rest.length === 0) return true;
+
+    return rest.some(row => row.some(cell => !this.isEmpty(cell) && typeof cell !== 'string'))
+      || cells.length === firstRow.length;
+  }
+
+  /**
+   * Infer a column type from its values; 80% agreement is enough to ignore stray entries
+   */
+  private inferType(values: any[]): ColumnType {
+    const counts = new Map<ColumnType, number>();
+    let total = 0;
+
+    for (const value of values) {
+      if (this.isEmpty(value)) continue;
+      const type: ColumnType = typeof value === 'number'
+        ? 'number'
+        : typeof value === 'boolean'
+          ? 'boolean'
+          : DATE_PATTERN.test(String(value).trim())
+            ? 'date'
+            : 'text';
+      counts.set(type, (counts.get(type) || 0) + 1);
+      total++;
+    }
+
+    if (total === 0) return 'empty';
+
+    const [type, count] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0];
+    return count / total >= 0.8 ? type : 'mixed';
+  }
+
+  private scoreTitle(title: string, message: string, terms: string[]): number {
+    const lowerTitle = title.toLowerCase();
+    let score = message.toLowerCase().includes(lowerTitle) ? 10 : 0;
+
+    for (const term of terms) {
+      if (lowerTitle.includes(term)) score += 3;
+    }
+
+    return score;
+  }
+
+  private scoreHeaders(columns: ColumnSummary[], terms: string[]): number {
+    let score = 0;
+
+    for (const column of columns) {
+      const header = column.header?.toLowerCase();
+      if (header && terms.some(term => header.includes(term))) score += 2;
+    }
+
+    return score;
+  }
+
+  private extractTerms(message: string): string[] {
+    return [...new Set(message.toLowerCase().split(/[^a-z0-9]+/))]
+      .filter(term => term.length >= 3 && !STOP_WORDS.has(term));
+  }
+
+  private isEmpty(value: any): boolean {
+    return value === undefined || value === null || value === '';
+  }
+}
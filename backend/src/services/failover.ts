@@ -0,0 +1,110 @@
+import { ChatMessage, StreamingChatChunk } from '../types/shared';
+import type { AIProvider, ChatOptions } from './ai';
+import { logger } from '../utils/logger';
+
+export interface RetryOptions {
+  maxRetries: number; // Retries per provider for transient errors
+  initialDelayMs: number; // Doubled after each retry
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 2,
+  initialDelayMs: 500,
+  maxDelayMs: 8000,
+};
+
+/**
+ * Runs a chat against an ordered list of providers. Transient errors are retried with
+ * exponential backoff; when a provider gives up, the next one takes over and a failover
+ * event is emitted. Nothing is retried once output has reached the caller, since that
+ * would repeat text and tool calls.
+ */
+export class ResilientProvider implements AIProvider {
+  name: string;
+  model: string;
+
+  constructor(private candidates: AIProvider[], private retry: RetryOptions = DEFAULT_RETRY_OPTIONS) {
+    if (candidates.length === 0) {
+      throw new Error('At least one provider is required');
+    }
+
+    // Reflects whichever provider is currently answering
+    this.name = candidates[0].name;
+    this.model = candidates[0].model;
+  }
+
+  async *chat(messages: ChatMessage[], systemPrompt: string, options: ChatOptions = {}): AsyncGenerator<StreamingChatChunk> {
+    const log = options.logger || logger;
+
+    for (let index = 0; index < this.candidates.length; index++) {
+      const provider = this.candidates[index];
+      this.name = provider.name;
+      this.model = provider.model;
+
+      let failure: StreamingChatChunk | null = null;
+
+      for (let attempt = 0; ; attempt++) {
+        failure = null;
+        let emitted = false;
+
+        for await (const chunk of provider.chat(messages, systemPrompt, options)) {
+          if (chunk.type === 'error' && !emitted) {
+            failure = chunk;
+            break;
+          }
+          emitted = true;
+          yield chunk;
+        }
+
+        // Cancelled providers end without an error, so there is nothing to retry
+        if (!failure || options.signal?.aborted) return;
+        if (!failure.retryable || attempt >= this.retry.maxRetries) break;
+
+        const delay = this.backoffDelay(attempt);
+        log.warn('AI provider failed, retrying', {
+          provider: provider.name,
+          model: provider.model,
+          error: failure.error,
+          attempt: attempt + 1,
+          delayMs: delay,
+        });
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+
+      const next = this.candidates[index + 1];
+      if (!next) {
+        yield failure;
+        return;
+      }
+
+      log.warn('AI provider failed, failing over', {
+        provider: provider.name,
+        model: provider.model,
+        error: failure.error,
+        nextProvider: next.name,
+        nextModel: next.model,
+      });
+      yield {
+        type: 'failover',
+        failover: {
+          from: { provider: provider.name, model: provider.model },
+          to: { provider: next.name, model: next.model },
+          reason: failure.error || 'Provider error',
+        },
+      };
+    }
+  }
+
+  verifyKey(): Promise<void> {
+    return this.candidates[0].verifyKey();
+  }
+
+  /**
+   * Exponential backoff with jitter, so clients rate limited together do not retry together
+   */
+  private backoffDelay(attempt: number): number {
+    const base = Math.min(this.retry.maxDelayMs, this.retry.initialDelayMs * 2 ** attempt);
+    return Math.round(base * (0.5 + Math.random() / 2));
+  }
+}
@@ -0,0 +1,199 @@
+import { HistoryEntryInfo, SheetsOperation } from '../types/shared';
+import { GridRange } from '../utils/range';
+
+/**
+ * Cell values (including formulas) and formats of a range at a point in time
+ */
+export interface RangeSnapshot {
+  kind: 'range';
+  gridRange: GridRange;
+  rows: any[];
+}
+
+/**
+ * Whether a sheet existed at a point in time
+ */
+export interface SheetSnapshot {
+  kind: 'sheet';
+  sheetId: number;
+  title: string;
+  exists: boolean;
+}
+
+/**
+ * Sheets API requests that reverse a structural change, and the requests that make it again
+ */
+export interface StructureSnapshot {
+  kind: 'structure';
+  restore: any[];
+  reapply: any[];
+}
+
+/**
+ * The snapshots of a batch's steps, grouped by the API call they were applied in and listed
+ * in the order they are restored: last call first, and last step first within each
+ */
+export interface BatchSnapshot {
+  kind: 'batch';
+  segments: Snapshot[][];
+}
+
+export type Snapshot = RangeSnapshot | SheetSnapshot | StructureSnapshot | BatchSnapshot;
+
+export interface HistoryEntry {
+  id: string;
+  userId: string; // Google account that made the change
+  spreadsheetId: string;
+  operation: SheetsOperation['type'] | 'batch';
+  target: string;
+  timestamp: Date;
+  snapshot: Snapshot;
+}
+
+interface HistoryStacks {
+  undo: HistoryEntry[];
+  redo: HistoryEntry[];
+}
+
+/**
+ * Undo and redo stacks per user and spreadsheet. Users only see, undo and redo their
+ * own changes, so two people editing one spreadsheet keep separate histories.
+ */
+export class HistoryService {
+  private stacks = new Map<string, HistoryStacks>();
+  private readonly MAX_ENTRIES = 50;
+
+  /**
+   * The history of one user, for SheetsService to record into
+   */
+  forUser(userId: string): UserHistory {
+    return new UserHistory(this, userId);
+  }
+
+  /**
+   * Record a new mutation. Any redo history is discarded.
+   */
+  record(
+    userId: string,
+    spreadsheetId: string,
+    entry: Omit<HistoryEntry, 'id' | 'userId' | 'spreadsheetId' | 'timestamp'>
+  ): HistoryEntry {
+    const stacks = this.getStacks(userId, spreadsheetId);
+
+    const historyEntry: HistoryEntry = {
+      ...entry,
+      id: `hist_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
+      userId,
+      spreadsheetId,
+      timestamp: new Date(),
+    };
+
+    stacks.undo.push(historyEntry);
+    stacks.redo = [];
+
+    if (stacks.undo.length > this.MAX_ENTRIES) {
+      stacks.undo.shift();
+    }
+
+    return historyEntry;
+  }
+
+  /**
+   * Take the most recent entry off the undo stack
+   */
+  popUndo(userId: string, spreadsheetId: string): HistoryEntry | undefined {
+    return this.stacks.get(stacksKey(userId, spreadsheetId))?.undo.pop();
+  }
+
+  /**
+   * Take the most recent entry off the redo stack
+   */
+  popRedo(userId: string, spreadsheetId: string): HistoryEntry | undefined {
+    return this.stacks.get(stacksKey(userId, spreadsheetId))?.redo.pop();
+  }
+
+  /**
+   * Push an entry onto the undo stack without discarding redo history
+   */
+  pushUndo(entry: HistoryEntry): void {
+    this.getStacks(entry.userId, entry.spreadsheetId).undo.push(entry);
+  }
+
+  /**
+   * Push an entry onto the redo stack
+   */
+  pushRedo(entry: HistoryEntry): void {
+    this.getStacks(entry.userId, entry.spreadsheetId).redo.push(entry);
+  }
+
+  /**
+   * List both of a user's stacks for a spreadsheet, most recent first
+   */
+  list(userId: string, spreadsheetId: string): { undo: HistoryEntryInfo[]; redo: HistoryEntryInfo[] } {
+    const stacks = this.stacks.get(stacksKey(userId, spreadsheetId));
+
+    return {
+      undo: (stacks?.undo || []).map(toEntryInfo).reverse(),
+      redo: (stacks?.redo || []).map(toEntryInfo).reverse(),
+    };
+  }
+
+  private getStacks(userId: string, spreadsheetId: string): HistoryStacks {
+    const key = stacksKey(userId, spreadsheetId);
+    let stacks = this.stacks.get(key);
+
+    if (!stacks) {
+      stacks = { undo: [], redo: [] };
+      this.stacks.set(key, stacks);
+    }
+
+    return stacks;
+  }
+}
+
+/**
+ * HistoryService bound to one user
+ */
+export class UserHistory {
+  constructor(private history: HistoryService, private userId: string) {}
+
+  record(spreadsheetId: string, entry: Omit<HistoryEntry, 'id' | 'userId' | 'spreadsheetId' | 'timestamp'>): HistoryEntry {
+    return this.history.record(this.userId, spreadsheetId, entry);
+  }
+
+  popUndo(spreadsheetId: string): HistoryEntry | undefined {
+    return this.history.popUndo(this.userId, spreadsheetId);
+  }
+
+  popRedo(spreadsheetId: string): HistoryEntry | undefined {
+    return this.history.popRedo(this.userId, spreadsheetId);
+  }
+
+  pushUndo(entry: HistoryEntry): void {
+    this.history.pushUndo(entry);
+  }
+
+  pushRedo(entry: HistoryEntry): void {
+    this.history.pushRedo(entry);
+  }
+
+  list(spreadsheetId: string): { undo: HistoryEntryInfo[]; redo: HistoryEntryInfo[] } {
+    return this.history.list(this.userId, spreadsheetId);
+  }
+}
+
+function stacksKey(userId: string, spreadsheetId: string): string {
+  return `${userId}:${spreadsheetId}`;
+}
+
+/**
+ * Strip the snapshot payload for listing
+ */
+export function toEntryInfo(entry: HistoryEntry): HistoryEntryInfo {
+  return {
+    id: entry.id,
+    operation: entry.operation,
+    target: entry.target,
+    timestamp: entry.timestamp,
+  };
+}
@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ApiKeyStore, UserApiKeys } from './keys';
+import { MemoryRecordStore } from './store';
+import { deriveEncryptionKey } from '../utils/crypto';
+
+test('keys are encrypted at rest and listed masked', () => {
+  const records = new MemoryRecordStore<UserApiKeys>();
+  const keys = new ApiKeyStore(deriveEncryptionKey('key secret'), records);
+
+  const info = keys.save('google_1', 'anthropic', 'sk-ant-secret-1234');
+
+  assert.equal(info.maskedKey, '••••1234');
+  assert.ok(!JSON.stringify(records.get('google_1')).includes('sk-ant-secret'));
+  assert.equal(keys.getKey('google_1', 'anthropic'), 'sk-ant-secret-1234');
+  assert.equal(keys.getKey('google_1', 'openai'), undefined);
+  assert.equal(keys.getKey('google_2', 'anthropic'), undefined);
+});
+
+test('saving again replaces the key but keeps when it was first added', () => {
+  const keys = new ApiKeyStore(deriveEncryptionKey('key secret'));
+
+  const first = keys.save('google_1', 'openai', 'sk-first-aaaa');
+  const second = keys.save('google_1', 'openai', 'sk-second-bbbb');
+
+  assert.equal(keys.list('google_1').length, 1);
+  assert.equal(second.createdAt, first.createdAt);
+  assert.equal(keys.getKey('google_1', 'openai'), 'sk-second-bbbb');
+
+  assert.equal(keys.delete('google_1', 'openai'), true);
+  assert.deepEqual(keys.list('google_1'), []);
+});
+
+test('a tampered key or a different encryption key is rejected', () => {
+  const records = new MemoryRecordStore<UserApiKeys>();
+  new ApiKeyStore(deriveEncryptionKey('key secret'), records).save('google_1', 'gemini', 'AIza-secret-9999');
+
+  assert.throws(() => new ApiKeyStore(deriveEncryptionKey('another secret'), records).getKey('google_1', 'gemini'));
+
+  const record = records.get('google_1')!;
+  const [version, iv, tag, ciphertext] = record.keys[0].encryptedKey.split(':');
+  const flipped = Buffer.from(ciphertext, 'base64');
+  flipped[flipped.length - 1] ^= 1;
+  record.keys[0].encryptedKey = [version, iv, tag, flipped.toString('base64')].join(':');
+  records.set(record);
+
+  assert.throws(() => new ApiKeyStore(deriveEncryptionKey('key secret'), records).getKey('google_1', 'gemini'));
+});
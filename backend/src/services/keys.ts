@@ -0,0 +1,138 @@
+import { ApiKeyInfo } from '../types/shared';
+import type { AIProviderType } from './ai';
+import { MemoryRecordStore, RecordStore } from './store';
+import { decrypt, encrypt } from '../utils/crypto';
+import { logger } from '../utils/logger';
+
+export interface StoredApiKey {
+  provider: AIProviderType;
+  encryptedKey: string;
+  lastFour: string; // Kept in the clear so keys can be listed without decrypting them
+  createdAt: Date;
+  updatedAt: Date;
+  lastTestedAt?: Date;
+  lastTestValid?: boolean;
+}
+
+/**
+ * All the AI provider keys saved by one user; the id is the user's Google id
+ */
+export interface UserApiKeys {
+  id: string;
+  keys: StoredApiKey[];
+  lastActivity: Date;
+}
+
+export type ApiKeyRecordStore = RecordStore<UserApiKeys>;
+
+export class ApiKeyStore {
+  constructor(
+    private encryptionKey: Buffer,
+    private store: ApiKeyRecordStore = new MemoryRecordStore<UserApiKeys>()
+  ) {}
+
+  /**
+   * Save or replace a user's key for a provider
+   */
+  save(userId: string, provider: AIProviderType, apiKey: string): ApiKeyInfo {
+    const record = this.getRecord(userId);
+    const now = new Date();
+    const existing = record.keys.find(key => key.provider === provider);
+
+    const storedKey: StoredApiKey = {
+      provider,
+      encryptedKey: encrypt(apiKey, this.encryptionKey),
+      lastFour: apiKey.slice(-4),
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+    };
+
+    record.keys = [...record.keys.filter(key => key.provider !== provider), storedKey];
+    record.lastActivity = now;
+    this.store.set(record);
+
+    logger.info('Saved API key', { provider, userId });
+    return toKeyInfo(storedKey);
+  }
+
+  /**
+   * List a user's keys with the key itself masked
+   */
+  list(userId: string): ApiKeyInfo[] {
+    return (this.store.get(userId)?.keys || []).map(toKeyInfo);
+  }
+
+  /**
+   * Decrypted key for a provider, if the user has saved one
+   */
+  getKey(userId: string, provider: AIProviderType): string | undefined {
+    const storedKey = this.store.get(userId)?.keys.find(key => key.provider === provider);
+    return storedKey ? decrypt(storedKey.encryptedKey, this.encryptionKey) : undefined;
+  }
+
+  /**
+   * Remember the outcome of the last key test
+   */
+  recordTest(userId: string, provider: AIProviderType, valid: boolean): ApiKeyInfo | null {
+    const record = this.store.get(userId);
+    const storedKey = record?.keys.find(key => key.provider === provider);
+    if (!record || !storedKey) return null;
+
+    storedKey.lastTestedAt = new Date();
+    storedKey.lastTestValid = valid;
+    this.store.set(record);
+
+    return toKeyInfo(storedKey);
+  }
+
+  /**
+   * Remove a user's key for a provider
+   */
+  delete(userId: string, provider: AIProviderType): boolean {
+    const record = this.store.get(userId);
+    if (!record || !record.keys.some(key => key.provider === provider)) return false;
+
+    record.keys = record.keys.filter(key => key.provider !== provider);
+    record.lastActivity = new Date();
+
+    if (record.keys.length === 0) {
+      this.store.delete(userId);
+    } else {
+      this.store.set(record);
+    }
+
+    logger.info('Deleted API key', { provider, userId });
+    return true;
+  }
+
+  private getRecord(userId: string): UserApiKeys {
+    return this.store.get(userId) || { id: userId, keys: [], lastActivity: new Date() };
+  }
+}
+
+/**
+ * Restore the Date fields of a user's keys parsed from JSON
+ */
+export function reviveUserApiKeys(raw: any): UserApiKeys {
+  return {
+    ...raw,
+    lastActivity: new Date(raw.lastActivity),
+    keys: (raw.keys || []).map((key: any) => ({
+      ...key,
+      createdAt: new Date(key.createdAt),
+      updatedAt: new Date(key.updatedAt),
+      lastTestedAt: key.lastTestedAt ? new Date(key.lastTestedAt) : undefined,
+    })),
+  };
+}
+
+function toKeyInfo(storedKey: StoredApiKey): ApiKeyInfo {
+  return {
+    provider: storedKey.provider,
+    maskedKey: `••••${storedKey.lastFour}`,
+    createdAt: storedKey.createdAt,
+    updatedAt: storedKey.updatedAt,
+    lastTestedAt: storedKey.lastTestedAt,
+    lastTestValid: storedKey.lastTestValid,
+  };
+}
@@ -0,0 +1,158 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ChatMessage, StreamingChatChunk, ToolCall, ToolResult } from '../types/shared';
+import type { ChatOptions } from './ai';
+import { ECHO_MODEL, MockFixture, MockProvider, RecordingProvider, loadFixtures } from './mock';
+import { SessionService } from './session';
+import { failedToolResult, isReadOnlyOperation, toolCallToOperation } from './tools';
+
+const FIXTURES_DIR = path.join(__dirname, '../../fixtures');
+
+function userMessage(content: string): ChatMessage {
+  return { id: `msg_${content}`, role: 'user', content, timestamp: new Date() };
+}
+
+async function collect(stream: AsyncIterable<StreamingChatChunk>): Promise<StreamingChatChunk[]> {
+  const chunks: StreamingChatChunk[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+test('echo model repeats the last user message', async () => {
+  const provider = new MockProvider({}, ECHO_MODEL);
+  const chunks = await collect(provider.chat([userMessage('first'), userMessage('second')], ''));
+
+  assert.deepEqual(chunks, [
+    { type: 'text', content: 'Echo: second' },
+    { type: 'complete', response: 'Echo: second' },
+  ]);
+});
+
+test('unknown fixtures report a non-retryable error', async () => {
+  const provider = new MockProvider({ fixtures: [] }, 'missing');
+  const chunks = await collect(provider.chat([userMessage('hi')], ''));
+
+  assert.deepEqual(chunks, [{ type: 'error', error: 'Unknown mock fixture: missing', retryable: false }]);
+});
+
+test('fixture turns follow the number of user messages and stop at the first error', async () => {
+  const provider = new MockProvider({ fixtures: loadFixtures(FIXTURES_DIR), delayScale: 0 }, 'sum-column');
+  const messages = [userMessage('sum it'), { ...userMessage('again'), role: 'assistant' as const }, userMessage('again')];
+  const chunks = await collect(provider.chat(messages, ''));
+
+  assert.deepEqual(chunks.map(chunk => chunk.type), ['text', 'error']);
+  assert.equal(chunks[1].error, 'Mock provider overloaded');
+});
+
+test('tool calls run through the handler and recorded results are replaced', async () => {
+  const fixture: MockFixture = {
+    name: 'recorded-tool',
+    turns: [[
+      { type: 'tool_call', toolCall: { id: 'call_1', name: 'read_range', arguments: { range: 'A1' } } },
+      { type: 'tool_result', toolResult: { toolCallId: 'call_1', name: 'read_range', success: true, result: 'stale' } },
+      { type: 'complete', response: '' },
+    ]],
+  };
+  const calls: ToolCall[] = [];
+  const options: ChatOptions = {
+    onToolCall: async (call): Promise<ToolResult> => {
+      calls.push(call);
+      return { toolCallId: call.id, name: call.name, success: true, result: 'live' };
+    },
+  };
+
+  const provider = new MockProvider({ fixtures: [fixture] }, 'recorded-tool');
+  const chunks = await collect(provider.chat([userMessage('read')], '', options));
+
+  assert.deepEqual(calls.map(call => call.id), ['call_1']);
+  assert.deepEqual(chunks.map(chunk => chunk.type), ['tool_call', 'tool_result', 'complete']);
+  assert.equal(chunks[1].toolResult?.result, 'live');
+});
+
+/**
+ * The chat route's tool handler, with reads answered locally instead of by the Sheets API
+ */
+function proposeChanges(sessions: SessionService, sessionId: string, spreadsheetId: string) {
+  return async (call: ToolCall): Promise<ToolResult> => {
+    try {
+      const operation = toolCallToOperation(call);
+      if (isReadOnlyOperation(operation)) {
+        return { toolCallId: call.id, name: call.name, success: true, result: { values: [[1], [2]] } };
+      }
+
+      const pendingOperation = sessions.addPendingOperation(sessionId, spreadsheetId, operation, call.id);
+      return {
+        toolCallId: call.id,
+        name: call.name,
+        success: true,
+        result: { status: 'pending_approval', pendingOperationId: pendingOperation.id },
+      };
+    } catch (error: any) {
+      return failedToolResult(call, error);
+    }
+  };
+}
+
+test('a replayed turn runs reads and proposes writes as pending operations', async () => {
+  const sessions = new SessionService();
+  const sessionId = sessions.createSession('user_1', 'sheet_1');
+  const provider = new MockProvider({ fixtures: loadFixtures(FIXTURES_DIR), delayScale: 0 }, 'sum-column');
+  const onToolCall = proposeChanges(sessions, sessionId, 'sheet_1');
+
+  const chunks = await collect(provider.chat([userMessage('Total column A')], '', { onToolCall }));
+
+  const results = chunks.filter(chunk => chunk.type === 'tool_result').map(chunk => chunk.toolResult!);
+  assert.deepEqual(results.map(result => [result.name, result.success]), [['read_range', true], ['set_formula', true]]);
+
+  const [pending] = sessions.getPendingOperations(sessionId);
+  assert.equal(pending.status, 'pending');
+  assert.equal(pending.toolCallId, 'call_formula_1');
+  assert.equal(pending.operation.type, 'formula');
+  assert.equal(results[1].result.pendingOperationId, pending.id);
+});
+
+test('aborting during a scripted delay ends the stream straight away', async () => {
+  const fixture: MockFixture = {
+    name: 'slow',
+    turns: [[
+      { type: 'text', content: 'Thinking' },
+      { type: 'text', content: 'Done', delayMs: 60000 },
+      { type: 'complete', response: 'ThinkingDone' },
+    ]],
+  };
+  const controller = new AbortController();
+  const provider = new MockProvider({ fixtures: [fixture] }, 'slow');
+
+  const started = Date.now();
+  const chunks: StreamingChatChunk[] = [];
+  for await (const chunk of provider.chat([userMessage('go')], '', { signal: controller.signal })) {
+    chunks.push(chunk);
+    setTimeout(() => controller.abort(), 10);
+  }
+
+  assert.deepEqual(chunks, [{ type: 'text', content: 'Thinking' }]);
+  assert.ok(Date.now() - started < 5000, 'the stream should not wait out the delay');
+});
+
+test('recorded streams replay as the same chunks', async () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'mock-fixtures-'));
+
+  try {
+    const recorder = new RecordingProvider(new MockProvider({}, ECHO_MODEL), directory);
+    const recorded = await collect(recorder.chat([userMessage('hello')], ''));
+
+    const [fixture] = loadFixtures(directory);
+    assert.equal(fixture.prompt, 'hello');
+    assert.deepEqual(fixture.recordedFrom, { provider: 'mock', model: ECHO_MODEL });
+
+    const replay = new MockProvider({ fixtures: [fixture], delayScale: 0 }, fixture.name);
+    assert.deepEqual(await collect(replay.chat([userMessage('hello')], '')), recorded);
+  } finally {
+    fs.rmSync(directory, { recursive: true, force: true });
+  }
+});
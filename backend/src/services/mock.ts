@@ -0,0 +1,204 @@
+import fs from 'fs';
+import path from 'path';
+import { ChatMessage, ModelInfo, ModelRef, StreamingChatChunk } from '../types/shared';
+import type { AIProvider, ChatOptions } from './ai';
+import { logger } from '../utils/logger';
+
+/**
+ * One chunk of a scripted response, emitted after an optional pause
+ */
+export type MockStep = StreamingChatChunk & {
+  delayMs?: number;
+};
+
+/**
+ * A scripted or recorded conversation. Each turn is the response to one user message;
+ * messages beyond the last turn replay the last one.
+ */
+export interface MockFixture {
+  name: string; // Selected as the mock provider's model
+  description?: string;
+  recordedFrom?: ModelRef;
+  recordedAt?: string;
+  prompt?: string; // The user message a recorded turn answered, for reference
+  turns: MockStep[][];
+}
+
+export interface MockConfig {
+  fixtures?: MockFixture[];
+  delayScale?: number; // Multiplies step delays; 0 replays recordings without pauses
+}
+
+// Always available, so the chat pipeline can be exercised without writing a fixture
+export const ECHO_MODEL = 'echo';
+
+/**
+ * Catalog entries for the mock provider: the echo model and one per fixture
+ */
+export function mockModels(fixtures: MockFixture[]): ModelInfo[] {
+  return [ECHO_MODEL, ...fixtures.map(fixture => fixture.name)].map(id => ({
+    id,
+    provider: 'mock',
+    name: id === ECHO_MODEL ? 'Echo' : id,
+    contextWindow: 200000,
+    maxOutputTokens: 4096,
+    maxTemperature: 2,
+    capabilities: { tools: true, vision: false, streaming: true },
+  }));
+}
+
+/**
+ * Load every fixture file (*.json) in a directory. The file name is used when a fixture has no name.
+ */
+export function loadFixtures(directory: string): MockFixture[] {
+  if (!fs.existsSync(directory)) return [];
+
+  return fs.readdirSync(directory)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .map(file => {
+      const raw = JSON.parse(fs.readFileSync(path.join(directory, file), 'utf8'));
+      if (!Array.isArray(raw.turns) || !raw.turns.every(Array.isArray)) {
+        throw new Error(`Invalid mock fixture ${file}: turns must be an array of step arrays`);
+      }
+      return { ...raw, name: raw.name || path.basename(file, '.json') };
+    });
+}
+
+/**
+ * Replays scripted responses without calling any API. Tool calls in a fixture are run
+ * through the caller's tool handler, so tool results and pending operations are live.
+ */
+export class MockProvider implements AIProvider {
+  name = 'mock';
+  model: string;
+
+  constructor(private config: MockConfig = {}, model?: string) {
+    this.model = model || ECHO_MODEL;
+  }
+
+  async *chat(messages: ChatMessage[], systemPrompt: string, options: ChatOptions = {}): AsyncGenerator<StreamingChatChunk> {
+    const userMessages = messages.filter(message => message.role === 'user');
+
+    if (this.model === ECHO_MODEL) {
+      const response = `Echo: ${userMessages[userMessages.length - 1]?.content || ''}`;
+      yield { type: 'text', content: response };
+      yield { type: 'complete', response };
+      return;
+    }
+
+    const fixture = this.config.fixtures?.find(candidate => candidate.name === this.model);
+    if (!fixture || fixture.turns.length === 0) {
+      yield { type: 'error', error: `Unknown mock fixture: ${this.model}`, retryable: false };
+      return;
+    }
+
+    const turn = fixture.turns[Math.min(Math.max(userMessages.length - 1, 0), fixture.turns.length - 1)];
+
+    for (const { delayMs, ...chunk } of turn) {
+      if (delayMs) {
+        try {
+          await sleep(delayMs * (this.config.delayScale ?? 1), options.signal);
+        } catch {
+          // Cancelled during a pause; like the real providers, the stream just ends
+          return;
+        }
+      }
+      if (options.signal?.aborted) return;
+
+      if (options.onToolCall) {
+        // Recorded results are replaced by whatever the handler returns now
+        if (chunk.type === 'tool_result') continue;
+
+        if (chunk.type === 'tool_call' && chunk.toolCall) {
+          yield chunk;
+          yield { type: 'tool_result', toolResult: await options.onToolCall(chunk.toolCall) };
+          continue;
+        }
+      }
+
+      yield chunk;
+
+      // Providers stop at the first error
+      if (chunk.type === 'error') return;
+    }
+  }
+
+  async verifyKey(): Promise<void> {
+    // No key to check
+  }
+}
+
+/**
+ * Passes a provider's stream through unchanged and saves it as a fixture once it ends,
+ * including the pauses between chunks
+ */
+export class RecordingProvider implements AIProvider {
+  constructor(private provider: AIProvider, private directory: string) {}
+
+  get name(): string {
+    return this.provider.name;
+  }
+
+  get model(): string {
+    return this.provider.model;
+  }
+
+  async *chat(messages: ChatMessage[], systemPrompt: string, options: ChatOptions = {}): AsyncGenerator<StreamingChatChunk> {
+    const recordedFrom = { provider: this.provider.name, model: this.provider.model };
+    const steps: MockStep[] = [];
+    let last = Date.now();
+
+    try {
+      for await (const chunk of this.provider.chat(messages, systemPrompt, options)) {
+        const now = Date.now();
+        steps.push({ ...chunk, delayMs: now - last });
+        last = now;
+        yield chunk;
+      }
+    } finally {
+      // Also saves streams the client abandoned, which end here early
+      const userMessages = messages.filter(message => message.role === 'user');
+      this.save({
+        name: `${recordedFrom.provider}-${recordedFrom.model}-${Date.now()}`.replace(/[^A-Za-z0-9_.-]/g, '_'),
+        recordedFrom,
+        recordedAt: new Date().toISOString(),
+        prompt: userMessages[userMessages.length - 1]?.content,
+        turns: [steps],
+      });
+    }
+  }
+
+  verifyKey(): Promise<void> {
+    return this.provider.verifyKey();
+  }
+
+  private save(fixture: MockFixture): void {
+    try {
+      fs.mkdirSync(this.directory, { recursive: true });
+      fs.writeFileSync(path.join(this.directory, `${fixture.name}.json`), JSON.stringify(fixture, null, 2));
+      logger.info('Recorded mock fixture', { fixture: fixture.name });
+    } catch (error: any) {
+      logger.error('Failed to record mock fixture', { error: error.message });
+    }
+  }
+}
+
+/**
+ * Wait for a step's delay, rejecting as soon as the signal aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,208 @@
+import { GenerationOptions, ModelInfo, TokenUsage } from '../types/shared';
+import type { AIProviderType } from './ai';
+
+// Output tokens requested when the caller does not choose, capped by the model's limit
+export const DEFAULT_MAX_TOKENS = 4000;
+
+// The most stop sequences every provider accepts
+const MAX_STOP_SEQUENCES = 4;
+
+/**
+ * Models the providers are known to support. The first entry for each provider is its default.
+ */
+export const MODEL_CATALOG: ModelInfo[] = [
+  {
+    id: 'claude-3-5-sonnet-20241022',
+    provider: 'anthropic',
+    name: 'Claude 3.5 Sonnet',
+    contextWindow: 200000,
+    maxOutputTokens: 8192,
+    maxTemperature: 1,
+    capabilities: { tools: true, vision: true, streaming: true },
+    pricing: { input: 3, output: 15 },
+  },
+  {
+    id: 'claude-3-5-haiku-20241022',
+    provider: 'anthropic',
+    name: 'Claude 3.5 Haiku',
+    contextWindow: 200000,
+    maxOutputTokens: 8192,
+    maxTemperature: 1,
+    capabilities: { tools: true, vision: false, streaming: true },
+    pricing: { input: 0.8, output: 4 },
+  },
+  {
+    id: 'claude-3-opus-20240229',
+    provider: 'anthropic',
+    name: 'Claude 3 Opus',
+    contextWindow: 200000,
+    maxOutputTokens: 4096,
+    maxTemperature: 1,
+    capabilities: { tools: true, vision: true, streaming: true },
+    pricing: { input: 15, output: 75 },
+  },
+  {
+    id: 'gpt-4',
+    provider: 'openai',
+    name: 'GPT-4',
+    contextWindow: 8192,
+    maxOutputTokens: 4096,
+    maxTemperature: 2,
+    capabilities: { tools: true, vision: false, streaming: true },
+    pricing: { input: 30, output: 60 },
+  },
+  {
+    id: 'gpt-4o',
+    provider: 'openai',
+    name: 'GPT-4o',
+    contextWindow: 128000,
+    maxOutputTokens: 16384,
+    maxTemperature: 2,
+    capabilities: { tools: true, vision: true, streaming: true },
+    pricing: { input: 2.5, output: 10 },
+  },
+  {
+    id: 'gpt-4o-mini',
+    provider: 'openai',
+    name: 'GPT-4o mini',
+    contextWindow: 128000,
+    maxOutputTokens: 16384,
+    maxTemperature: 2,
+    capabilities: { tools: true, vision: true, streaming: true },
+    pricing: { input: 0.15, output: 0.6 },
+  },
+  {
+    id: 'gpt-4-turbo',
+    provider: 'openai',
+    name: 'GPT-4 Turbo',
+    contextWindow: 128000,
+    maxOutputTokens: 4096,
+    maxTemperature: 2,
+    capabilities: { tools: true, vision: true, streaming: true },
+    pricing: { input: 10, output: 30 },
+  },
+  {
+    id: 'gemini-pro',
+    provider: 'gemini',
+    name: 'Gemini 1.0 Pro',
+    contextWindow: 30720,
+    maxOutputTokens: 2048,
+    maxTemperature: 1,
+    capabilities: { tools: true, vision: false, streaming: true },
+    pricing: { input: 0.5, output: 1.5 },
+  },
+  {
+    id: 'gemini-1.5-pro',
+    provider: 'gemini',
+    name: 'Gemini 1.5 Pro',
+    contextWindow: 2097152,
+    maxOutputTokens: 8192,
+    maxTemperature: 2,
+    capabilities: { tools: true, vision: true, streaming: true },
+    pricing: { input: 1.25, output: 5 },
+  },
+  {
+    id: 'gemini-1.5-flash',
+    provider: 'gemini',
+    name: 'Gemini 1.5 Flash',
+    contextWindow: 1048576,
+    maxOutputTokens: 8192,
+    maxTemperature: 2,
+    capabilities: { tools: true, vision: true, streaming: true },
+    pricing: { input: 0.075, output: 0.3 },
+  },
+];
+
+/**
+ * Add models that are only known from configuration, such as those served by a self-hosted endpoint.
+ * Registered models replace catalog entries with the same provider and id.
+ */
+export function registerModels(models: ModelInfo[]): void {
+  for (const model of models) {
+    const index = MODEL_CATALOG.findIndex(existing => existing.provider === model.provider && existing.id === model.id);
+    if (index >= 0) {
+      MODEL_CATALOG.splice(index, 1, model);
+    } else {
+      MODEL_CATALOG.push(model);
+    }
+  }
+}
+
+/**
+ * Models for one provider, or every model
+ */
+export function listModels(provider?: string): ModelInfo[] {
+  return provider ? MODEL_CATALOG.filter(model => model.provider === provider) : [...MODEL_CATALOG];
+}
+
+/**
+ * Look up a model in the catalog
+ */
+export function getModel(provider: string, modelId: string): ModelInfo | undefined {
+  return MODEL_CATALOG.find(model => model.provider === provider && model.id === modelId);
+}
+
+/**
+ * The model a provider uses when none is requested
+ */
+export function getDefaultModel(provider: string): ModelInfo | undefined {
+  return MODEL_CATALOG.find(model => model.provider === provider);
+}
+
+/**
+ * Context window size in tokens for a provider's model
+ */
+export function getContextWindow(provider: string, modelId?: string): number {
+  const model = (modelId && getModel(provider, modelId)) || getDefaultModel(provider);
+  return model?.contextWindow || 8192;
+}
+
+/**
+ * Output token limit to request: the caller's choice, or the default capped to what the model allows
+ */
+export function resolveMaxTokens(provider: string, modelId: string, maxTokens?: number): number {
+  const limit = getModel(provider, modelId)?.maxOutputTokens;
+  return maxTokens || (limit ? Math.min(DEFAULT_MAX_TOKENS, limit) : DEFAULT_MAX_TOKENS);
+}
+
+/**
+ * Estimated USD cost of a response from the model's list prices
+ */
+export function estimateCost(provider: string, modelId: string, usage: TokenUsage): number {
+  const pricing = getModel(provider, modelId)?.pricing;
+  if (!pricing) return 0;
+
+  return (usage.inputTokens * pricing.input + usage.outputTokens * pricing.output) / 1_000_000;
+}
+
+/**
+ * Check requested generation options against the provider's catalog. Returns an error message, or null if valid.
+ */
+export function validateGenerationOptions(provider: AIProviderType, options: GenerationOptions): string | null {
+  const model = options.model ? getModel(provider, options.model) : getDefaultModel(provider);
+  if (!model) {
+    return `Unknown ${provider} model: ${options.model}`;
+  }
+
+  if (options.temperature !== undefined) {
+    if (typeof options.temperature !== 'number' || options.temperature < 0 || options.temperature > model.maxTemperature) {
+      return `temperature must be between 0 and ${model.maxTemperature} for ${model.id}`;
+    }
+  }
+
+  if (options.maxTokens !== undefined) {
+    if (!Number.isInteger(options.maxTokens) || options.maxTokens < 1 || options.maxTokens > model.maxOutputTokens) {
+      return `maxTokens must be between 1 and ${model.maxOutputTokens} for ${model.id}`;
+    }
+  }
+
+  if (options.stopSequences !== undefined) {
+    const { stopSequences } = options;
+    if (!Array.isArray(stopSequences) || stopSequences.length > MAX_STOP_SEQUENCES
+      || !stopSequences.every(stop => typeof stop === 'string' && stop.length > 0)) {
+      return `stopSequences must be up to ${MAX_STOP_SEQUENCES} non-empty strings`;
+    }
+  }
+
+  return null;
+}
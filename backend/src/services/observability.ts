@@ -0,0 +1,109 @@
+import crypto from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+import { Logger, logger } from '../utils/logger';
+import { MetricsRegistry } from '../utils/metrics';
+
+declare global {
+  namespace Express {
+    interface Request {
+      requestId: string;
+      log: Logger; // Tags every entry with the request id
+    }
+  }
+}
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+// Accept a caller's id only if it is safe to echo back and log
+const VALID_REQUEST_ID = /^[A-Za-z0-9._-]{1,64}$/;
+
+export const registry = new MetricsRegistry();
+
+export const metrics = {
+  httpRequestDuration: registry.histogram('http_request_duration_seconds', 'HTTP request latency by route and status'),
+  googleApiCalls: registry.counter('google_api_calls_total', 'Google API calls by method'),
+  googleApiErrors: registry.counter('google_api_errors_total', 'Failed Google API calls by method and status'),
+  googleApiDuration: registry.histogram('google_api_call_duration_seconds', 'Google API call latency by method'),
+  aiTimeToFirstToken: registry.histogram('ai_time_to_first_token_seconds', 'Time from sending a chat to the first streamed output'),
+  aiResponses: registry.counter('ai_responses_total', 'AI chat turns by provider, model and outcome'),
+  aiTokens: registry.counter('ai_tokens_total', 'AI tokens by provider and direction'),
+  activeStreams: registry.gauge('sse_active_streams', 'Chat responses currently streaming'),
+  rateLimited: registry.counter('rate_limited_total', 'Requests rejected by a rate limit, by route and scope'),
+};
+
+/**
+ * Give each request an id (the caller's X-Request-Id if valid), echo it in the response,
+ * attach a logger carrying it, and record latency once the response is done
+ */
+export function requestContext() {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const incoming = req.header(REQUEST_ID_HEADER);
+    req.requestId = incoming && VALID_REQUEST_ID.test(incoming) ? incoming : crypto.randomUUID();
+    req.log = logger.child({ requestId: req.requestId });
+    res.setHeader(REQUEST_ID_HEADER, req.requestId);
+
+    const stopTimer = metrics.httpRequestDuration.startTimer({ method: req.method });
+
+    res.on('finish', () => {
+      // The matched route pattern keeps label cardinality bounded
+      const route = req.route ? `${req.baseUrl}${req.route.path}` : 'unmatched';
+      const seconds = stopTimer({ route, status: res.statusCode });
+
+      // req.path is relative to the router that handled the request, so use the original URL
+      const path = req.originalUrl.split('?')[0];
+      const fields = { method: req.method, path, route, status: res.statusCode, durationMs: Math.round(seconds * 1000) };
+      if (path === '/health' || path === '/metrics') {
+        req.log.debug('Request completed', fields);
+      } else {
+        req.log.info('Request completed', fields);
+      }
+    });
+
+    next();
+  };
+}
+
+/**
+ * Wrap a googleapis client so every API call is counted, timed and logged. Calls are
+ * recognized as methods that return a promise, named by their path, e.g. spreadsheets.values.get.
+ */
+export function instrumentGoogleClient<T extends object>(client: T, log: Logger = logger, path: string[] = []): T {
+  return new Proxy(client, {
+    get(target, property, receiver) {
+      const value = Reflect.get(target, property, receiver);
+      if (typeof property !== 'string') return value;
+
+      if (typeof value === 'function') {
+        const method = [...path, property].join('.');
+        return (...args: any[]) => {
+          const result = value.apply(target, args);
+          if (!result || typeof result.then !== 'function') return result;
+
+          metrics.googleApiCalls.inc({ method });
+          const stopTimer = metrics.googleApiDuration.startTimer({ method });
+
+          return result.then(
+            (response: any) => {
+              const seconds = stopTimer();
+              log.debug('Google API call', { method, durationMs: Math.round(seconds * 1000) });
+              return response;
+            },
+            (error: any) => {
+              const seconds = stopTimer();
+              const status = error?.response?.status || error?.code || 'unknown';
+              metrics.googleApiErrors.inc({ method, status });
+              log.warn('Google API call failed', { method, status, durationMs: Math.round(seconds * 1000), error: error?.message });
+              throw error;
+            }
+          );
+        };
+      }
+
+      if (value && typeof value === 'object') {
+        return instrumentGoogleClient(value, log, [...path, property]);
+      }
+
+      return value;
+    },
+  });
+}
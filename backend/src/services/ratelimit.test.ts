@@ -0,0 +1,101 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Request, Response } from 'express';
+import { RateLimiter, rateLimitConfigFromEnv } from './ratelimit';
+
+const MINUTE = 60 * 1000;
+
+test('a full bucket allows a burst of its size, then refills continuously', () => {
+  const limiter = new RateLimiter({ routes: { chat: { user: { perMinute: 3 } } } });
+  const now = 1_000_000;
+
+  for (let i = 0; i < 3; i++) {
+    assert.equal(limiter.consume('chat', { user: 'alice' }, now).allowed, true);
+  }
+  assert.deepEqual(limiter.consume('chat', { user: 'alice' }, now), { allowed: false, retryAfterSeconds: 20, scope: 'user' });
+
+  // One request comes back every 20 seconds
+  assert.equal(limiter.consume('chat', { user: 'alice' }, now + 10_000).retryAfterSeconds, 10);
+  assert.equal(limiter.consume('chat', { user: 'alice' }, now + 20_000).allowed, true);
+
+  // Other users have their own bucket
+  assert.equal(limiter.consume('chat', { user: 'bob' }, now).allowed, true);
+});
+
+test('nothing is taken unless every bucket has room', () => {
+  const limiter = new RateLimiter({
+    routes: { sheets_write: { user: { perMinute: 10 }, spreadsheet: { perMinute: 1 } } },
+  });
+  const now = 1_000_000;
+
+  assert.equal(limiter.consume('sheets_write', { user: 'alice', spreadsheet: 'sheet_1' }, now).allowed, true);
+  const blocked = limiter.consume('sheets_write', { user: 'alice', spreadsheet: 'sheet_1' }, now);
+  assert.equal(blocked.allowed, false);
+  assert.equal(blocked.scope, 'spreadsheet');
+
+  // The blocked request did not use up any of the user's 9 remaining requests
+  for (let i = 0; i < 9; i++) {
+    assert.equal(limiter.consume('sheets_write', { user: 'alice', spreadsheet: `sheet_${i + 2}` }, now).allowed, true);
+  }
+  assert.equal(limiter.consume('sheets_write', { user: 'alice', spreadsheet: 'sheet_20' }, now).scope, 'user');
+});
+
+test('the daily AI token cap resets at midnight UTC', () => {
+  const limiter = new RateLimiter({ routes: {}, dailyAITokens: 1000 });
+  const midnight = Date.UTC(2026, 0, 2);
+
+  limiter.recordAITokens('alice', 600, midnight - 2 * MINUTE);
+  assert.equal(limiter.checkAITokens('alice', midnight - 2 * MINUTE).allowed, true);
+
+  limiter.recordAITokens('alice', 600, midnight - MINUTE);
+  assert.deepEqual(limiter.checkAITokens('alice', midnight - MINUTE), {
+    allowed: false,
+    retryAfterSeconds: 60,
+    scope: 'daily_ai_tokens',
+  });
+
+  assert.equal(limiter.checkAITokens('alice', midnight).allowed, true);
+});
+
+test('limits come from the environment, with 0 turning one off', () => {
+  const config = rateLimitConfigFromEnv({ RATE_LIMIT_CHAT_USER: '5', RATE_LIMIT_CHAT_SPREADSHEET: '0', AI_DAILY_TOKEN_LIMIT: '50000' });
+
+  assert.deepEqual(config.routes.chat, { user: { perMinute: 5 }, spreadsheet: { perMinute: 0 } });
+  assert.equal(config.dailyAITokens, 50000);
+
+  const limiter = new RateLimiter(config);
+  for (let i = 0; i < 5; i++) limiter.consume('chat', { user: 'alice', spreadsheet: 'sheet_1' });
+  assert.equal(limiter.consume('chat', { user: 'alice', spreadsheet: 'sheet_1' }).scope, 'user');
+});
+
+test('limited requests get a 429 with Retry-After', () => {
+  const limiter = new RateLimiter({ routes: { chat: { user: { perMinute: 1 } } } });
+  const middleware = limiter.limit('chat');
+  const req = { user: { id: 'alice' }, log: { warn() {} } } as unknown as Request;
+
+  const sent: { status?: number; headers: Record<string, string>; body?: any } = { headers: {} };
+  const res = {
+    setHeader(name: string, value: string) {
+      sent.headers[name] = value;
+      return this;
+    },
+    status(code: number) {
+      sent.status = code;
+      return this;
+    },
+    json(body: any) {
+      sent.body = body;
+      return this;
+    },
+  } as unknown as Response;
+
+  let passed = 0;
+  middleware(req, res, () => passed++);
+  middleware(req, res, () => passed++);
+
+  assert.equal(passed, 1);
+  assert.equal(sent.status, 429);
+  assert.equal(sent.headers['Retry-After'], '60');
+  assert.equal(sent.body.success, false);
+  assert.equal(sent.body.retryAfter, 60);
+});
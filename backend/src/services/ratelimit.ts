@@ -0,0 +1,208 @@
+import { NextFunction, Request, Response } from 'express';
+import { MemoryRecordStore, RecordStore } from './store';
+import { metrics } from './observability';
+import { sendError } from '../utils/response';
+
+export type RateLimitScope = 'user' | 'spreadsheet';
+
+/**
+ * Requests allowed per minute, refilled continuously; a full bucket also allows a burst of that size
+ */
+export interface BucketLimit {
+  perMinute: number;
+}
+
+// Limits for one group of routes; scopes without a limit are not limited
+export type RouteLimits = Partial<Record<RateLimitScope, BucketLimit>>;
+
+export interface RateLimitConfig {
+  routes: Record<string, RouteLimits>;
+  dailyAITokens?: number; // Input plus output tokens per user per UTC day; unset for no cap
+}
+
+/**
+ * Limiter state: a token bucket (value is the tokens left) or a daily AI token count (value is
+ * the tokens used), keyed by route, scope and subject
+ */
+export interface LimiterRecord {
+  id: string;
+  value: number;
+  updatedAt: number; // Last refill for buckets, start of the UTC day for daily counts
+  lastActivity: Date;
+}
+
+export type LimiterStore = RecordStore<LimiterRecord>;
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterSeconds: number;
+  scope?: RateLimitScope | 'daily_ai_tokens'; // The limit that was hit
+}
+
+export interface LimitOptions {
+  spreadsheetId?: (req: Request) => string | undefined;
+  aiTokens?: boolean; // Also enforce the daily AI token cap
+}
+
+export const DEFAULT_RATE_LIMITS: Record<string, RouteLimits> = {
+  chat: { user: { perMinute: 20 }, spreadsheet: { perMinute: 30 } },
+  sheets_read: { user: { perMinute: 120 }, spreadsheet: { perMinute: 120 } },
+  sheets_write: { user: { perMinute: 60 }, spreadsheet: { perMinute: 60 } },
+  key_test: { user: { perMinute: 10 } },
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export class RateLimiter {
+  constructor(
+    private config: RateLimitConfig,
+    private store: LimiterStore = new MemoryRecordStore<LimiterRecord>()
+  ) {}
+
+  /**
+   * Take one request from each of the route's buckets. Nothing is taken unless every bucket has room.
+   */
+  consume(route: string, subjects: Partial<Record<RateLimitScope, string>>, now: number = Date.now()): RateLimitResult {
+    const limits = this.config.routes[route] || {};
+    const buckets: Array<{ scope: RateLimitScope; record: LimiterRecord; limit: BucketLimit }> = [];
+
+    for (const scope of Object.keys(limits) as RateLimitScope[]) {
+      const limit = limits[scope]!;
+      const subject = subjects[scope];
+      if (!subject || limit.perMinute <= 0) continue;
+
+      const id = `${route}:${scope}:${subject}`;
+      const record = this.store.get(id) || { id, value: limit.perMinute, updatedAt: now, lastActivity: new Date(now) };
+
+      // Refill for the time since the bucket was last touched, up to its capacity
+      const refilled = Math.min(limit.perMinute, record.value + ((now - record.updatedAt) / 60000) * limit.perMinute);
+      buckets.push({ scope, limit, record: { ...record, value: refilled, updatedAt: now, lastActivity: new Date(now) } });
+    }
+
+    const empty = buckets.filter(bucket => bucket.record.value < 1);
+    if (empty.length > 0) {
+      const waits = empty.map(bucket => ({
+        scope: bucket.scope,
+        seconds: Math.ceil(((1 - bucket.record.value) / bucket.limit.perMinute) * 60),
+      }));
+      const longest = waits.reduce((a, b) => (b.seconds > a.seconds ? b : a));
+      return { allowed: false, retryAfterSeconds: Math.max(1, longest.seconds), scope: longest.scope };
+    }
+
+    for (const bucket of buckets) {
+      bucket.record.value -= 1;
+      this.store.set(bucket.record);
+    }
+
+    return { allowed: true, retryAfterSeconds: 0 };
+  }
+
+  /**
+   * Whether a user is still under the daily AI token cap
+   */
+  checkAITokens(userId: string, now: number = Date.now()): RateLimitResult {
+    const cap = this.config.dailyAITokens;
+    if (!cap) return { allowed: true, retryAfterSeconds: 0 };
+
+    const dayStart = startOfDay(now);
+    if (this.getDailyTokens(userId, dayStart) < cap) {
+      return { allowed: true, retryAfterSeconds: 0 };
+    }
+
+    return { allowed: false, retryAfterSeconds: Math.ceil((dayStart + DAY - now) / 1000), scope: 'daily_ai_tokens' };
+  }
+
+  /**
+   * Count tokens a user's AI response used toward today's cap
+   */
+  recordAITokens(userId: string, tokens: number, now: number = Date.now()): void {
+    if (!this.config.dailyAITokens) return;
+
+    const dayStart = startOfDay(now);
+    this.store.set({
+      id: `ai_tokens:${userId}`,
+      value: this.getDailyTokens(userId, dayStart) + tokens,
+      updatedAt: dayStart,
+      lastActivity: new Date(now),
+    });
+  }
+
+  /**
+   * Middleware applying a route group's limits, keyed by the signed-in user and the spreadsheet
+   */
+  limit(route: string, options: LimitOptions = {}) {
+    return (req: Request, res: Response, next: NextFunction) => {
+      const userId = req.user?.id;
+      let result = this.consume(route, {
+        user: userId,
+        spreadsheet: options.spreadsheetId?.(req),
+      });
+
+      if (result.allowed && options.aiTokens && userId) {
+        result = this.checkAITokens(userId);
+      }
+
+      if (result.allowed) return next();
+
+      metrics.rateLimited.inc({ route, scope: result.scope || 'unknown' });
+      req.log.warn('Rate limited', { route, scope: result.scope, userId, retryAfterSeconds: result.retryAfterSeconds });
+
+      res.setHeader('Retry-After', String(result.retryAfterSeconds));
+      if (result.scope === 'daily_ai_tokens') {
+        return sendError(res, 429, 'AI_TOKEN_LIMIT', 'Daily AI token limit reached', { retryAfter: result.retryAfterSeconds });
+      }
+      sendError(res, 429, 'RATE_LIMITED', `Too many requests for this ${result.scope}; try again in ${result.retryAfterSeconds}s`, {
+        retryAfter: result.retryAfterSeconds,
+      });
+    };
+  }
+
+  /**
+   * Start periodic removal of buckets idle long enough to have refilled, and of past days' counts
+   */
+  startCleanupTimer(): void {
+    setInterval(() => {
+      this.store.deleteInactiveSince(new Date(Date.now() - DAY));
+    }, 60 * 60 * 1000);
+  }
+
+  private getDailyTokens(userId: string, dayStart: number): number {
+    const record = this.store.get(`ai_tokens:${userId}`);
+    return record && record.updatedAt === dayStart ? record.value : 0;
+  }
+}
+
+/**
+ * Read limits from the environment, e.g. RATE_LIMIT_CHAT_USER=20 for 20 chat requests per user per
+ * minute. 0 turns a limit off.
+ */
+export function rateLimitConfigFromEnv(env: NodeJS.ProcessEnv): RateLimitConfig {
+  const routes: Record<string, RouteLimits> = {};
+
+  for (const [route, limits] of Object.entries(DEFAULT_RATE_LIMITS)) {
+    routes[route] = {};
+    for (const scope of Object.keys(limits) as RateLimitScope[]) {
+      const value = env[`RATE_LIMIT_${route.toUpperCase()}_${scope.toUpperCase()}`];
+      routes[route][scope] = value !== undefined ? { perMinute: parseInt(value, 10) } : limits[scope];
+    }
+  }
+
+  return {
+    routes,
+    dailyAITokens: env.AI_DAILY_TOKEN_LIMIT ? parseInt(env.AI_DAILY_TOKEN_LIMIT, 10) : undefined,
+  };
+}
+
+/**
+ * Restore the Date fields of limiter state parsed from JSON
+ */
+export function reviveLimiterRecord(raw: any): LimiterRecord {
+  return {
+    ...raw,
+    lastActivity: new Date(raw.lastActivity),
+  };
+}
+
+function startOfDay(now: number): number {
+  return Math.floor(now / DAY) * DAY;
+}
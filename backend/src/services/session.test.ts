@@ -0,0 +1,87 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ConflictError } from '../utils/errors';
+import { SessionData, SessionService, SessionStore, reviveSession } from './session';
+import { FileRecordStore, SqliteRecordStore } from './store';
+
+const BACKENDS: Array<[string, (file: string) => SessionStore]> = [
+  ['file', file => new FileRecordStore<SessionData>(`${file}.json`, reviveSession)],
+  ['sqlite', file => new SqliteRecordStore<SessionData>(`${file}.db`, 'sessions', reviveSession)],
+];
+
+function withStorageDir(run: (file: string) => void): void {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'sessions-'));
+  try {
+    run(path.join(directory, 'sessions'));
+  } finally {
+    fs.rmSync(directory, { recursive: true, force: true });
+  }
+}
+
+for (const [backend, openStore] of BACKENDS) {
+  test(`sessions survive a restart of the ${backend} store`, () => {
+    withStorageDir(file => {
+      const store = openStore(file);
+      const sessions = new SessionService(store);
+      const sessionId = sessions.createSession('user_1', 'sheet_1');
+      sessions.addMessage(sessionId, { id: 'msg_1', role: 'user', content: 'Total column A', timestamp: new Date() });
+      const pending = sessions.addPendingOperation(sessionId, 'sheet_1', { type: 'formula', range: 'A11', formula: '=SUM(A1:A10)' }, 'call_1');
+      store.close();
+
+      const reopened = new SessionService(openStore(file));
+      const [message] = reopened.getHistory(sessionId);
+      assert.equal(message.content, 'Total column A');
+      assert.ok(message.timestamp instanceof Date);
+
+      const restored = reopened.getPendingOperation(sessionId, pending.id);
+      assert.equal(restored?.status, 'pending');
+      assert.equal(restored?.toolCallId, 'call_1');
+      assert.ok(restored?.expiresAt instanceof Date);
+      assert.equal(reopened.getSession(sessionId)?.spreadsheetId, 'sheet_1');
+      assert.ok(reopened.isOwner(sessionId, 'user_1'));
+      assert.ok(!reopened.isOwner(sessionId, 'user_2'));
+    });
+  });
+}
+
+test('inactive sessions are removed from the store', () => {
+  withStorageDir(file => {
+    const store = new FileRecordStore<SessionData>(`${file}.json`, reviveSession);
+    const sessions = new SessionService(store);
+    const sessionId = sessions.createSession('user_1');
+
+    assert.deepEqual(store.deleteInactiveSince(new Date(Date.now() + 1000)), [sessionId]);
+    assert.equal(new FileRecordStore<SessionData>(`${file}.json`, reviveSession).get(sessionId), undefined);
+  });
+});
+
+test('an operation can only be claimed once', () => {
+  const sessions = new SessionService();
+  const sessionId = sessions.createSession('user_1', 'sheet_1');
+  const pending = sessions.addPendingOperation(sessionId, 'sheet_1', { type: 'write', range: 'A1', values: [['1']] });
+
+  const claimed = sessions.claimPendingOperation(sessionId, pending.id, { range: 'B1' });
+  assert.equal(claimed.status, 'applying');
+  assert.equal(claimed.operation.range, 'B1');
+
+  assert.throws(() => sessions.claimPendingOperation(sessionId, pending.id), ConflictError);
+  assert.throws(() => sessions.resolvePendingOperation(sessionId, pending.id, 'rejected'), ConflictError);
+
+  const resolved = sessions.resolvePendingOperation(sessionId, pending.id, 'approved', { result: { updated: true } });
+  assert.equal(resolved.status, 'approved');
+  assert.ok(resolved.resolvedAt instanceof Date);
+});
+
+test('a cancelled reply stays ahead of the newer message that cancelled it', () => {
+  const sessions = new SessionService();
+  const sessionId = sessions.createSession('user_1', 'sheet_1');
+  sessions.addMessage(sessionId, { id: 'msg_1', role: 'user', content: 'Sort by date', timestamp: new Date() });
+  sessions.addMessage(sessionId, { id: 'msg_2', role: 'user', content: 'Actually, by name', timestamp: new Date() });
+  sessions.addMessage(sessionId, { id: 'msg_3', role: 'assistant', content: 'Sorting by', timestamp: new Date(), interrupted: true }, 'msg_1');
+  sessions.addMessage(sessionId, { id: 'msg_4', role: 'assistant', content: 'Sorted by name.', timestamp: new Date() }, 'msg_2');
+
+  assert.deepEqual(sessions.getHistory(sessionId).map(message => message.id), ['msg_1', 'msg_3', 'msg_2', 'msg_4']);
+});
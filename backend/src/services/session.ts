@@ -1,43 +1,68 @@
-import { ChatMessage } from '../types/shared';
+import { ChatMessage, PendingOperation, ModelRef, SessionInfo, SheetsOperation, UsageTotals } from '../types/shared';
+import { MemoryRecordStore, RecordStore } from './store';
+import { addUsage, emptyTotals } from './usage';
+import { logger } from '../utils/logger';
+import { ConflictError, NotFoundError } from '../utils/errors';
+
+export interface ConversationSummary {
+  content: string;
+  messageCount: number; // Number of leading messages the summary replaces
+  updatedAt: Date;
+}
 
 export interface SessionData {
   id: string;
+  userId: string; // Google account that owns the session
+  title?: string;
   messages: ChatMessage[];
+  pendingOperations: PendingOperation[];
+  summary?: ConversationSummary;
   spreadsheetId?: string;
+  defaultModel?: ModelRef;
+  usage?: UsageTotals; // All AI responses in the session, including any since cleared
   createdAt: Date;
   lastActivity: Date;
 }
 
+export type SessionStore = RecordStore<SessionData>;
+
 export class SessionService {
-  private sessions = new Map<string, SessionData>();
   private readonly SESSION_TIMEOUT = 24 * 60 * 60 * 1000; // 24 hours
+  private readonly PENDING_OPERATION_TIMEOUT = 15 * 60 * 1000; // 15 minutes
+  private readonly TITLE_LENGTH = 60;
+  private generations = new Map<string, AbortController>(); // In-flight chat turns; not persisted
+
+  constructor(private store: SessionStore = new MemoryRecordStore<SessionData>()) {}
 
   /**
-   * Create a new chat session
+   * Create a new chat session owned by a user
    */
-  createSession(spreadsheetId?: string): string {
+  createSession(userId: string, spreadsheetId?: string): string {
     const sessionId = `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     
     const sessionData: SessionData = {
       id: sessionId,
+      userId,
       messages: [],
+      pendingOperations: [],
       spreadsheetId,
       createdAt: new Date(),
       lastActivity: new Date(),
     };
 
-    this.sessions.set(sessionId, sessionData);
+    this.store.set(sessionData);
     this.cleanupExpiredSessions();
     
-    console.log(`Created new session: ${sessionId}`);
+    logger.info('Created session', { sessionId, userId });
     return sessionId;
   }
 
   /**
-   * Add a message to a session
+   * Add a message to a session. A reply goes directly after the message it answers, so a
+   * cancelled turn's partial reply stays ahead of the newer message that cancelled it.
    */
-  addMessage(sessionId: string, message: ChatMessage): void {
-    const session = this.sessions.get(sessionId);
+  addMessage(sessionId: string, message: ChatMessage, replyTo?: string): void {
+    const session = this.store.get(sessionId);
     
     if (!session) {
       throw new Error(`Session not found: ${sessionId}`);
@@ -50,24 +75,41 @@ export class SessionService {
       timestamp: message.timestamp || new Date(),
     };
 
-    session.messages.push(messageWithId);
+    const index = replyTo ? session.messages.findIndex(existing => existing.id === replyTo) + 1 : 0;
+    if (index > 0 && index < session.messages.length) {
+      session.messages.splice(index, 0, messageWithId);
+      // Keep the summary covering the same messages
+      if (session.summary && index < session.summary.messageCount) {
+        session.summary.messageCount++;
+      }
+    } else {
+      session.messages.push(messageWithId);
+    }
     session.lastActivity = new Date();
+    if (message.usage) {
+      session.usage = addUsage(session.usage || emptyTotals(), message.usage, message.cost || 0);
+    }
+    if (!session.title && message.role === 'user') {
+      session.title = this.buildTitle(message.content);
+    }
+    this.store.set(session);
     
-    console.log(`Added message to session ${sessionId}: ${message.role}`);
+    logger.debug('Added message to session', { sessionId, role: message.role });
   }
 
   /**
    * Get conversation history for a session
    */
   getHistory(sessionId: string): ChatMessage[] {
-    const session = this.sessions.get(sessionId);
+    const session = this.store.get(sessionId);
     
     if (!session) {
-      console.warn(`Session not found: ${sessionId}`);
+      logger.warn('Session not found', { sessionId });
       return [];
     }
 
     session.lastActivity = new Date();
+    this.store.set(session);
     return [...session.messages]; // Return copy to prevent mutation
   }
 
@@ -75,21 +117,49 @@ export class SessionService {
    * Get session metadata
    */
   getSession(sessionId: string): SessionData | null {
-    const session = this.sessions.get(sessionId);
+    const session = this.store.get(sessionId);
     
     if (!session) {
       return null;
     }
 
     session.lastActivity = new Date();
+    this.store.set(session);
     return { ...session }; // Return copy
   }
 
+  /**
+   * Whether a session exists and belongs to the user
+   */
+  isOwner(sessionId: string, userId: string): boolean {
+    return this.store.get(sessionId)?.userId === userId;
+  }
+
+  /**
+   * List a user's sessions, most recently active first
+   */
+  listSessions(userId: string): SessionInfo[] {
+    return this.store
+      .list()
+      .filter(session => session.userId === userId)
+      .sort((a, b) => b.lastActivity.getTime() - a.lastActivity.getTime())
+      .map(session => ({
+        id: session.id,
+        title: session.title || 'New conversation',
+        spreadsheetId: session.spreadsheetId,
+        defaultModel: session.defaultModel,
+        messageCount: session.messages.length,
+        usage: session.usage,
+        createdAt: session.createdAt,
+        lastActivity: session.lastActivity,
+      }));
+  }
+
   /**
    * Update session spreadsheet ID
    */
   setSpreadsheetId(sessionId: string, spreadsheetId: string): void {
-    const session = this.sessions.get(sessionId);
+    const session = this.store.get(sessionId);
     
     if (!session) {
       throw new Error(`Session not found: ${sessionId}`);
@@ -97,82 +167,311 @@ export class SessionService {
 
     session.spreadsheetId = spreadsheetId;
     session.lastActivity = new Date();
+    this.store.set(session);
     
-    console.log(`Updated session ${sessionId} spreadsheet: ${spreadsheetId}`);
+    logger.debug('Updated session spreadsheet', { sessionId, spreadsheetId });
+  }
+
+  /**
+   * Pin the model used when a chat request does not name one, or clear it
+   */
+  setDefaultModel(sessionId: string, defaultModel: ModelRef | undefined): void {
+    const session = this.store.get(sessionId);
+
+    if (!session) {
+      throw new Error(`Session not found: ${sessionId}`);
+    }
+
+    session.defaultModel = defaultModel;
+    session.lastActivity = new Date();
+    this.store.set(session);
+  }
+
+  /**
+   * Store the summary that replaces the oldest messages when building prompts
+   */
+  setSummary(sessionId: string, summary: ConversationSummary): void {
+    const session = this.store.get(sessionId);
+
+    if (!session) {
+      throw new Error(`Session not found: ${sessionId}`);
+    }
+
+    session.summary = summary;
+    session.lastActivity = new Date();
+    this.store.set(session);
   }
 
   /**
    * Clear all messages in a session
    */
   clearSession(sessionId: string): void {
-    const session = this.sessions.get(sessionId);
+    const session = this.store.get(sessionId);
     
     if (!session) {
       throw new Error(`Session not found: ${sessionId}`);
     }
 
     session.messages = [];
+    session.pendingOperations = [];
+    session.summary = undefined;
+    session.title = undefined;
     session.lastActivity = new Date();
+    this.store.set(session);
     
-    console.log(`Cleared session: ${sessionId}`);
+    logger.info('Cleared session', { sessionId });
+  }
+
+  /**
+   * Hold a mutating operation until the user approves or rejects it
+   */
+  addPendingOperation(
+    sessionId: string,
+    spreadsheetId: string,
+    operation: SheetsOperation,
+    toolCallId?: string
+  ): PendingOperation {
+    const session = this.store.get(sessionId);
+
+    if (!session) {
+      throw new Error(`Session not found: ${sessionId}`);
+    }
+
+    const now = new Date();
+    const pendingOperation: PendingOperation = {
+      id: `op_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
+      spreadsheetId,
+      operation,
+      status: 'pending',
+      toolCallId,
+      createdAt: now,
+      expiresAt: new Date(now.getTime() + this.PENDING_OPERATION_TIMEOUT),
+    };
+
+    session.pendingOperations.push(pendingOperation);
+    session.lastActivity = now;
+    this.store.set(session);
+
+    return { ...pendingOperation };
+  }
+
+  /**
+   * Get all operations proposed in a session, expiring stale ones first
+   */
+  getPendingOperations(sessionId: string): PendingOperation[] {
+    const session = this.store.get(sessionId);
+
+    if (!session) {
+      throw new Error(`Session not found: ${sessionId}`);
+    }
+
+    if (this.expirePendingOperations(session)) {
+      this.store.set(session);
+    }
+    return session.pendingOperations.map(op => ({ ...op }));
+  }
+
+  /**
+   * Get a single proposed operation
+   */
+  getPendingOperation(sessionId: string, operationId: string): PendingOperation | null {
+    return this.getPendingOperations(sessionId).find(op => op.id === operationId) || null;
+  }
+
+  /**
+   * Edit a proposed operation before it is approved. The operation type cannot change.
+   */
+  updatePendingOperation(
+    sessionId: string,
+    operationId: string,
+    changes: Partial<SheetsOperation>
+  ): PendingOperation {
+    const { session, pendingOperation } = this.findOpenPendingOperation(sessionId, operationId, 'pending');
+
+    pendingOperation.operation = applyOperationChanges(pendingOperation.operation, changes);
+    this.store.set(session);
+
+    return { ...pendingOperation };
+  }
+
+  /**
+   * Mark an approved operation as being applied, along with any last-minute edits.
+   * Only one approval can claim an operation; any other gets a ConflictError.
+   */
+  claimPendingOperation(sessionId: string, operationId: string, changes?: Partial<SheetsOperation>): PendingOperation {
+    if (changes) {
+      this.updatePendingOperation(sessionId, operationId, changes);
+    }
+
+    const { session, pendingOperation } = this.findOpenPendingOperation(sessionId, operationId, 'pending');
+    pendingOperation.status = 'applying';
+    this.store.set(session);
+
+    return { ...pendingOperation };
+  }
+
+  /**
+   * Record the outcome of a proposed operation. Approved and failed operations must
+   * have been claimed first; rejected ones must still be pending.
+   */
+  resolvePendingOperation(
+    sessionId: string,
+    operationId: string,
+    status: 'approved' | 'rejected' | 'failed',
+    outcome: { result?: any; error?: string } = {}
+  ): PendingOperation {
+    const { session, pendingOperation } = this.findOpenPendingOperation(
+      sessionId,
+      operationId,
+      status === 'rejected' ? 'pending' : 'applying'
+    );
+
+    pendingOperation.status = status;
+    pendingOperation.resolvedAt = new Date();
+    pendingOperation.result = outcome.result;
+    pendingOperation.error = outcome.error;
+    this.store.set(session);
+
+    logger.info('Resolved pending operation', { sessionId, operationId, status });
+    return { ...pendingOperation };
   }
 
   /**
    * Delete a session completely
    */
   deleteSession(sessionId: string): boolean {
-    const deleted = this.sessions.delete(sessionId);
+    this.cancelGeneration(sessionId);
+    const deleted = this.store.delete(sessionId);
     
     if (deleted) {
-      console.log(`Deleted session: ${sessionId}`);
+      logger.info('Deleted session', { sessionId });
     }
     
     return deleted;
   }
 
+  /**
+   * Register a chat turn and return the signal that cancels it. A session answers one message
+   * at a time, so a turn still running is cancelled.
+   */
+  startGeneration(sessionId: string): AbortSignal {
+    this.cancelGeneration(sessionId);
+
+    const controller = new AbortController();
+    this.generations.set(sessionId, controller);
+    return controller.signal;
+  }
+
+  /**
+   * Cancel a session's in-flight chat turn. Returns false if none is running.
+   */
+  cancelGeneration(sessionId: string): boolean {
+    const controller = this.generations.get(sessionId);
+    if (!controller) return false;
+
+    controller.abort();
+    this.generations.delete(sessionId);
+    logger.info('Cancelled generation', { sessionId });
+    return true;
+  }
+
+  /**
+   * Forget a chat turn once it has ended, unless a newer turn has replaced it
+   */
+  finishGeneration(sessionId: string, signal: AbortSignal): void {
+    if (this.generations.get(sessionId)?.signal === signal) {
+      this.generations.delete(sessionId);
+    }
+  }
+
   /**
    * Get all active sessions (for debugging)
    */
   getActiveSessions(): string[] {
-    return Array.from(this.sessions.keys());
+    return this.store.list().map(session => session.id);
   }
 
   /**
    * Get session statistics
    */
   getStats(): { totalSessions: number; totalMessages: number } {
+    const sessions = this.store.list();
     let totalMessages = 0;
     
-    for (const session of this.sessions.values()) {
+    for (const session of sessions) {
       totalMessages += session.messages.length;
     }
 
     return {
-      totalSessions: this.sessions.size,
+      totalSessions: sessions.length,
       totalMessages,
     };
   }
 
   /**
-   * Clean up expired sessions
+   * Look up a proposed operation that is still in the given state, along with its session
    */
-  private cleanupExpiredSessions(): void {
+  private findOpenPendingOperation(
+    sessionId: string,
+    operationId: string,
+    status: 'pending' | 'applying'
+  ): { session: SessionData; pendingOperation: PendingOperation } {
+    const session = this.store.get(sessionId);
+
+    if (!session) {
+      throw new NotFoundError(`Session not found: ${sessionId}`);
+    }
+
+    this.expirePendingOperations(session);
+    const pendingOperation = session.pendingOperations.find(op => op.id === operationId);
+
+    if (!pendingOperation) {
+      throw new NotFoundError(`Pending operation not found: ${operationId}`);
+    }
+    if (pendingOperation.status !== status) {
+      throw new ConflictError(`Pending operation ${operationId} is already ${pendingOperation.status}`);
+    }
+
+    session.lastActivity = new Date();
+    return { session, pendingOperation };
+  }
+
+  /**
+   * First line of a message, shortened to fit a session list
+   */
+  private buildTitle(content: string): string {
+    const firstLine = content.trim().split('\n')[0].trim();
+    return firstLine.length > this.TITLE_LENGTH
+      ? `${firstLine.slice(0, this.TITLE_LENGTH - 1).trimEnd()}…`
+      : firstLine;
+  }
+
+  /**
+   * Mark proposed operations past their expiry time as expired. Returns whether any changed.
+   */
+  private expirePendingOperations(session: SessionData): boolean {
     const now = Date.now();
-    const expiredSessions: string[] = [];
+    let changed = false;
 
-    for (const [sessionId, session] of this.sessions.entries()) {
-      if (now - session.lastActivity.getTime() > this.SESSION_TIMEOUT) {
-        expiredSessions.push(sessionId);
+    for (const pendingOperation of session.pendingOperations) {
+      if (pendingOperation.status === 'pending' && now >= pendingOperation.expiresAt.getTime()) {
+        pendingOperation.status = 'expired';
+        pendingOperation.resolvedAt = new Date(now);
+        changed = true;
       }
     }
 
-    for (const sessionId of expiredSessions) {
-      this.sessions.delete(sessionId);
-      console.log(`Cleaned up expired session: ${sessionId}`);
-    }
+    return changed;
+  }
+
+  /**
+   * Clean up expired sessions
+   */
+  private cleanupExpiredSessions(): void {
+    const expiredSessions = this.store.deleteInactiveSince(new Date(Date.now() - this.SESSION_TIMEOUT));
 
     if (expiredSessions.length > 0) {
-      console.log(`Cleaned up ${expiredSessions.length} expired sessions`);
+      logger.info('Cleaned up expired sessions', { count: expiredSessions.length, sessionIds: expiredSessions });
     }
   }
 
@@ -180,11 +479,42 @@ export class SessionService {
    * Start periodic cleanup (call this when server starts)
    */
   startCleanupTimer(): void {
+    // Persistent stores may hold sessions that expired while the server was down
+    this.cleanupExpiredSessions();
+
     // Clean up every hour
     setInterval(() => {
       this.cleanupExpiredSessions();
     }, 60 * 60 * 1000);
-    
-    console.log('Started session cleanup timer');
+
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Apply edits to a proposed operation, keeping its type
+ */
+export function applyOperationChanges(operation: SheetsOperation, changes: Partial<SheetsOperation>): SheetsOperation {
+  return { ...operation, ...changes, type: operation.type };
+}
+
+/**
+ * Restore the Date fields of a session parsed from JSON
+ */
+export function reviveSession(raw: any): SessionData {
+  return {
+    ...raw,
+    createdAt: new Date(raw.createdAt),
+    lastActivity: new Date(raw.lastActivity),
+    summary: raw.summary ? { ...raw.summary, updatedAt: new Date(raw.summary.updatedAt) } : undefined,
+    messages: (raw.messages || []).map((message: any) => ({
+      ...message,
+      timestamp: new Date(message.timestamp),
+    })),
+    pendingOperations: (raw.pendingOperations || []).map((op: any) => ({
+      ...op,
+      createdAt: new Date(op.createdAt),
+      expiresAt: new Date(op.expiresAt),
+      resolvedAt: op.resolvedAt ? new Date(op.resolvedAt) : undefined,
+    })),
+  };
+}
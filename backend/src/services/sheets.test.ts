@@ -0,0 +1,130 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SheetsOperation } from '../types/shared';
+import { HistoryService } from './history';
+import { SheetsService } from './sheets';
+
+// A Sheets API client with one sheet, recording every call
+function fakeSheets(options: { failValuesUpdate?: number } = {}) {
+  const calls: Array<{ method: string; params: any }> = [];
+  let valuesUpdates = 0;
+
+  const client = {
+    spreadsheets: {
+      get: async (params: any) => {
+        calls.push({ method: 'get', params });
+        return {
+          data: {
+            properties: { title: 'Budget' },
+            sheets: [{ properties: { sheetId: 0, title: 'Sheet1', gridProperties: { rowCount: 100, columnCount: 10 } } }],
+          },
+        };
+      },
+      getByDataFilter: async (params: any) => {
+        calls.push({ method: 'getByDataFilter', params });
+        const data = params.requestBody.dataFilters.map(({ gridRange }: any) => ({
+          startRow: gridRange.startRowIndex || undefined,
+          startColumn: gridRange.startColumnIndex || undefined,
+          rowData: [{ values: [{ userEnteredValue: { stringValue: `old ${gridRange.startRowIndex},${gridRange.startColumnIndex}` } }] }],
+        }));
+        return { data: { sheets: [{ properties: { sheetId: 0, title: 'Sheet1' }, data }] } };
+      },
+      batchUpdate: async (params: any) => {
+        calls.push({ method: 'batchUpdate', params });
+        return { data: { replies: [] } };
+      },
+      values: {
+        batchUpdate: async (params: any) => {
+          calls.push({ method: 'values.batchUpdate', params });
+          if (++valuesUpdates === options.failValuesUpdate) {
+            throw Object.assign(new Error('Request failed'), { response: { status: 500, data: { error: { message: 'Internal error' } } } });
+          }
+          return { data: { responses: params.requestBody.data.map((entry: any) => ({ updatedRange: entry.range, updatedCells: 1 })) } };
+        },
+      },
+    },
+  };
+
+  return { client, calls };
+}
+
+function sheetsService(client: any, history = new HistoryService()) {
+  const service = new SheetsService('token', history.forUser('google_1'));
+  Object.assign(service, { sheets: client });
+  return { service, history };
+}
+
+const OPERATIONS: SheetsOperation[] = [
+  { type: 'write', range: 'Sheet1!A1', values: [['Total']] },
+  { type: 'write', range: 'Sheet1!B1', values: [['Count']] },
+  { type: 'formula', range: 'Sheet1!C1', formula: '=A1' },
+  { type: 'insertRows', sheetName: 'Sheet1', startIndex: 0, count: 1 },
+  { type: 'format', range: 'Sheet1!A2:B2', formatting: { bold: true } },
+];
+
+test('batch steps are grouped by endpoint and snapshotted with one read per group', async () => {
+  const { client, calls } = fakeSheets();
+  const { service, history } = sheetsService(client);
+
+  const result = await service.executeBatch('sheet_1', OPERATIONS);
+
+  assert.equal(result.success, true);
+  assert.deepEqual(calls.map(call => call.method), [
+    'get',
+    'getByDataFilter', 'values.batchUpdate',
+    'batchUpdate',
+    'getByDataFilter', 'batchUpdate',
+  ]);
+  assert.equal(result.apiCalls, calls.length);
+  assert.equal(calls[1].params.requestBody.dataFilters.length, 3);
+  assert.equal(calls[2].params.requestBody.data.length, 3);
+
+  const { undo } = history.list('google_1', 'sheet_1');
+  assert.equal(undo.length, 1);
+  assert.equal(undo[0].operation, 'batch');
+  assert.equal(undo[0].target, 'Sheet1!A1, Sheet1!B1, Sheet1!C1, Sheet1, Sheet1!A2:B2');
+});
+
+test('a batch is undone as one change, the last group first', async () => {
+  const { client, calls } = fakeSheets();
+  const { service, history } = sheetsService(client);
+  await service.executeBatch('sheet_1', OPERATIONS);
+  calls.length = 0;
+
+  await service.undo('sheet_1');
+
+  const restores = calls.filter(call => call.method === 'batchUpdate').map(call => call.params.requestBody.requests);
+  assert.equal(restores.length, 3);
+  assert.deepEqual(restores[0][0].updateCells.range, { sheetId: 0, startRowIndex: 1, endRowIndex: 2, startColumnIndex: 0, endColumnIndex: 2 });
+  assert.ok(restores[1][0].deleteDimension);
+  assert.deepEqual(restores[2].map((request: any) => request.updateCells.range.startColumnIndex), [2, 1, 0]);
+
+  const { undo, redo } = history.list('google_1', 'sheet_1');
+  assert.equal(undo.length, 0);
+  assert.equal(redo.length, 1);
+  assert.equal(redo[0].operation, 'batch');
+});
+
+test('an atomic batch rolls back applied steps in reverse when a later step fails', async () => {
+  const { client, calls } = fakeSheets({ failValuesUpdate: 2 });
+  const { service, history } = sheetsService(client);
+
+  const result = await service.executeBatch('sheet_1', [
+    { type: 'write', range: 'Sheet1!A1', values: [['Total']] },
+    { type: 'insertRows', sheetName: 'Sheet1', startIndex: 0, count: 1 },
+    { type: 'write', range: 'Sheet1!B2', values: [['Count']] },
+  ], { atomic: true });
+
+  assert.equal(result.success, false);
+  assert.equal(result.rolledBack, true);
+  assert.deepEqual(result.results.map(step => step.status), ['rolled_back', 'rolled_back', 'failed']);
+
+  const rollback = calls[calls.length - 1];
+  assert.equal(rollback.method, 'batchUpdate');
+  const [undoInsert, restoreA1] = rollback.params.requestBody.requests;
+  assert.ok(undoInsert.deleteDimension);
+  assert.deepEqual(restoreA1.updateCells.range, { sheetId: 0, startRowIndex: 0, endRowIndex: 1, startColumnIndex: 0, endColumnIndex: 1 });
+  assert.equal(restoreA1.updateCells.rows[0].values[0].userEnteredValue.stringValue, 'old 0,0');
+
+  assert.deepEqual(history.list('google_1', 'sheet_1').undo, []);
+});
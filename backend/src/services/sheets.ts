@@ -1,15 +1,97 @@
 import { google } from 'googleapis';
 import { OAuth2Client } from 'google-auth-library';
-import { SpreadsheetInfo, SheetInfo, CellData, SheetsOperation, CellFormatting } from '../types/shared';
+import {
+  SpreadsheetInfo,
+  SheetInfo,
+  CellData,
+  SheetsOperation,
+  CellFormatting,
+  CellBorders,
+  SortSpec,
+  NamedRangeInfo,
+  CellChange,
+  FormatChange,
+  OperationDiff,
+  BatchOperationResult,
+  BatchResult,
+} from '../types/shared';
+import { BatchSnapshot, HistoryEntry, RangeSnapshot, Snapshot, StructureSnapshot, UserHistory } from './history';
+import { instrumentGoogleClient } from './observability';
+import { Logger, logger } from '../utils/logger';
+import { ApiError, ConflictError, InvalidOperationError, NotFoundError, fromGoogleError } from '../utils/errors';
+import {
+  GridRange,
+  boundGridRange,
+  cellAddress,
+  columnToIndex,
+  formatA1,
+  fromGridRange,
+  indexToColumn,
+  resolveGridRange,
+  toA1Notation,
+} from '../utils/range';
+
+export interface ExecuteOptions {
+  dryRun?: boolean;
+}
+
+export interface BatchOptions {
+  atomic?: boolean;
+}
+
+// Consecutive batch operations that can share a single API call
+interface BatchSegment {
+  kind: 'read' | 'values' | 'structure';
+  indices: number[];
+}
+
+// CellFormatting properties stored on the Sheets API TextFormat, keyed to their API names
+const TEXT_FORMAT_PROPERTIES: Array<[keyof CellFormatting, string]> = [
+  ['textColor', 'foregroundColor'],
+  ['fontSize', 'fontSize'],
+  ['fontFamily', 'fontFamily'],
+  ['bold', 'bold'],
+  ['italic', 'italic'],
+  ['underline', 'underline'],
+  ['strikethrough', 'strikethrough'],
+];
+
+// CellFormatting properties that map directly onto CellFormat
+const CELL_FORMAT_PROPERTIES: Array<keyof CellFormatting> = ['horizontalAlignment', 'verticalAlignment', 'wrapStrategy'];
+
+const BORDER_SIDES = ['top', 'bottom', 'left', 'right'] as const;
+
+// Cell fields captured by snapshots and written back when they are restored
+const SNAPSHOT_FIELDS = 'userEnteredValue,userEnteredFormat';
+
+// Operations that move cells or change which sheets exist under which names and positions.
+// Later steps must be snapshotted after these are applied, so they get a batch call of their own.
+const LAYOUT_OPERATIONS: Array<SheetsOperation['type']> = [
+  'insertRows',
+  'deleteRows',
+  'insertColumns',
+  'deleteColumns',
+  'renameSheet',
+  'deleteSheet',
+  'duplicateSheet',
+  'moveSheet',
+];
 
 export class SheetsService {
   private auth: OAuth2Client;
   private sheets: any;
+  private history?: UserHistory;
+  private log: Logger;
 
-  constructor(accessToken: string) {
+  /**
+   * Pass the request's logger so Google API calls are logged with its request id
+   */
+  constructor(accessToken: string, history?: UserHistory, log: Logger = logger) {
+    this.history = history;
+    this.log = log;
     this.auth = new OAuth2Client();
     this.auth.setCredentials({ access_token: accessToken });
-    this.sheets = google.sheets({ version: 'v4', auth: this.auth });
+    this.sheets = instrumentGoogleClient(google.sheets({ version: 'v4', auth: this.auth }), log);
   }
 
   /**
@@ -30,15 +112,24 @@ export class SheetsService {
         columnCount: sheet.properties.gridProperties?.columnCount || 26,
       })) || [];
 
+      const namedRanges: NamedRangeInfo[] = (spreadsheet.namedRanges || []).map((namedRange: any) => {
+        const sheet = sheets.find(s => s.id === (namedRange.range?.sheetId ?? 0));
+        return {
+          name: namedRange.name,
+          range: formatA1(fromGridRange(namedRange.range || { sheetId: 0 }, sheet?.title)),
+        };
+      });
+
       return {
         id: spreadsheetId,
         title: spreadsheet.properties?.title || 'Untitled Spreadsheet',
         sheets,
+        namedRanges,
         permissions: ['read', 'write'], // TODO: Get actual permissions
       };
     } catch (error: any) {
-      console.error('Error getting spreadsheet info:', error);
-      throw new Error(`Failed to get spreadsheet info: ${error.message}`);
+      this.log.error('Error getting spreadsheet info', { error });
+      throw fromGoogleError(error, 'Failed to get spreadsheet info');
     }
   }
 
@@ -49,7 +140,7 @@ export class SheetsService {
     try {
       const response = await this.sheets.spreadsheets.values.get({
         spreadsheetId,
-        range,
+        range: toA1Notation(range),
         valueRenderOption: 'UNFORMATTED_VALUE',
         dateTimeRenderOption: 'FORMATTED_STRING',
       });
@@ -59,8 +150,8 @@ export class SheetsService {
         range: response.data.range || range,
       };
     } catch (error: any) {
-      console.error('Error reading range:', error);
-      throw new Error(`Failed to read range ${range}: ${error.message}`);
+      this.log.error('Error reading range', { error });
+      throw fromGoogleError(error, `Failed to read range ${range}`);
     }
   }
 
@@ -69,17 +160,23 @@ export class SheetsService {
    */
   async writeRange(spreadsheetId: string, range: string, values: any[][]): Promise<void> {
     try {
+      // Values overflowing the range's top-left cell are written too, so snapshot them as well
+      const gridRange = this.history
+        ? this.expandToValues(await this.resolveGridRange(spreadsheetId, range), values)
+        : undefined;
+      const snapshot = await this.snapshotForHistory(spreadsheetId, range, gridRange);
       await this.sheets.spreadsheets.values.update({
         spreadsheetId,
-        range,
+        range: toA1Notation(range),
         valueInputOption: 'USER_ENTERED',
         requestBody: {
           values,
         },
       });
+      this.recordHistory(spreadsheetId, 'write', range, snapshot);
     } catch (error: any) {
-      console.error('Error writing range:', error);
-      throw new Error(`Failed to write to range ${range}: ${error.message}`);
+      this.log.error('Error writing range', { error });
+      throw fromGoogleError(error, `Failed to write to range ${range}`);
     }
   }
 
@@ -104,15 +201,18 @@ export class SheetsService {
       });
 
       const newSheet = response.data.replies[0].addSheet.properties;
-      return {
-        id: newSheet.sheetId,
+
+      this.recordHistory(spreadsheetId, 'create', newSheet.title, {
+        kind: 'sheet',
+        sheetId: newSheet.sheetId,
         title: newSheet.title,
-        rowCount: newSheet.gridProperties?.rowCount || 1000,
-        columnCount: newSheet.gridProperties?.columnCount || 26,
-      };
+        exists: false,
+      });
+
+      return this.toSheetInfo(newSheet);
     } catch (error: any) {
-      console.error('Error creating sheet:', error);
-      throw new Error(`Failed to create sheet ${sheetName}: ${error.message}`);
+      this.log.error('Error creating sheet', { error });
+      throw fromGoogleError(error, `Failed to create sheet ${sheetName}`);
     }
   }
 
@@ -121,17 +221,19 @@ export class SheetsService {
    */
   async setFormula(spreadsheetId: string, range: string, formula: string): Promise<void> {
     try {
+      const snapshot = await this.snapshotForHistory(spreadsheetId, range);
       await this.sheets.spreadsheets.values.update({
         spreadsheetId,
-        range,
+        range: toA1Notation(range),
         valueInputOption: 'USER_ENTERED',
         requestBody: {
           values: [[formula]],
         },
       });
+      this.recordHistory(spreadsheetId, 'formula', range, snapshot);
     } catch (error: any) {
-      console.error('Error setting formula:', error);
-      throw new Error(`Failed to set formula in ${range}: ${error.message}`);
+      this.log.error('Error setting formula', { error });
+      throw fromGoogleError(error, `Failed to set formula in ${range}`);
     }
   }
 
@@ -140,55 +242,10 @@ export class SheetsService {
    */
   async formatCells(spreadsheetId: string, range: string, formatting: CellFormatting): Promise<void> {
     try {
-      // Parse the range to get sheet ID and cell coordinates
-      const [sheetName, cellRange] = range.split('!');
-      const spreadsheetInfo = await this.getSpreadsheetInfo(spreadsheetId);
-      const sheet = spreadsheetInfo.sheets.find(s => s.title === sheetName);
-      
-      if (!sheet) {
-        throw new Error(`Sheet ${sheetName} not found`);
-      }
-
-      // Convert A1 notation to grid coordinates
-      const gridRange = this.a1ToGridRange(cellRange, sheet.id);
-
-      const formatRequest: any = {
-        repeatCell: {
-          range: gridRange,
-          cell: {
-            userEnteredFormat: {},
-          },
-          fields: 'userEnteredFormat',
-        },
-      };
+      const gridRange = await this.resolveGridRange(spreadsheetId, range);
+      const snapshot = await this.snapshotForHistory(spreadsheetId, range, gridRange);
 
-      // Apply formatting options
-      if (formatting.backgroundColor) {
-        formatRequest.repeatCell.cell.userEnteredFormat.backgroundColor = this.hexToRgb(formatting.backgroundColor);
-      }
-      if (formatting.textColor) {
-        formatRequest.repeatCell.cell.userEnteredFormat.textFormat = {
-          foregroundColor: this.hexToRgb(formatting.textColor),
-        };
-      }
-      if (formatting.bold !== undefined) {
-        formatRequest.repeatCell.cell.userEnteredFormat.textFormat = {
-          ...formatRequest.repeatCell.cell.userEnteredFormat.textFormat,
-          bold: formatting.bold,
-        };
-      }
-      if (formatting.italic !== undefined) {
-        formatRequest.repeatCell.cell.userEnteredFormat.textFormat = {
-          ...formatRequest.repeatCell.cell.userEnteredFormat.textFormat,
-          italic: formatting.italic,
-        };
-      }
-      if (formatting.fontSize) {
-        formatRequest.repeatCell.cell.userEnteredFormat.textFormat = {
-          ...formatRequest.repeatCell.cell.userEnteredFormat.textFormat,
-          fontSize: formatting.fontSize,
-        };
-      }
+      const formatRequest = this.buildFormatRequest(gridRange, formatting);
 
       await this.sheets.spreadsheets.batchUpdate({
         spreadsheetId,
@@ -196,78 +253,1517 @@ export class SheetsService {
           requests: [formatRequest],
         },
       });
+      this.recordHistory(spreadsheetId, 'format', range, snapshot);
+    } catch (error: any) {
+      this.log.error('Error formatting cells', { error });
+      throw fromGoogleError(error, `Failed to format cells in ${range}`);
+    }
+  }
+
+  /**
+   * Insert empty rows or columns into a sheet
+   */
+  async insertDimension(
+    spreadsheetId: string,
+    sheetName: string,
+    dimension: 'ROWS' | 'COLUMNS',
+    startIndex: number,
+    count: number
+  ): Promise<void> {
+    const type = dimension === 'ROWS' ? 'insertRows' : 'insertColumns';
+    await this.applyStructuralOperation(spreadsheetId, { type, sheetName, startIndex, count });
+  }
+
+  /**
+   * Delete rows or columns from a sheet
+   */
+  async deleteDimension(
+    spreadsheetId: string,
+    sheetName: string,
+    dimension: 'ROWS' | 'COLUMNS',
+    startIndex: number,
+    count: number
+  ): Promise<void> {
+    const type = dimension === 'ROWS' ? 'deleteRows' : 'deleteColumns';
+    await this.applyStructuralOperation(spreadsheetId, { type, sheetName, startIndex, count });
+  }
+
+  /**
+   * Sort the rows of a range by one or more columns
+   */
+  async sortRange(spreadsheetId: string, range: string, sortSpecs: SortSpec[]): Promise<void> {
+    await this.applyStructuralOperation(spreadsheetId, { type: 'sort', range, sortSpecs });
+  }
+
+  /**
+   * Merge the cells of a range
+   */
+  async mergeCells(
+    spreadsheetId: string,
+    range: string,
+    mergeType: SheetsOperation['mergeType'] = 'MERGE_ALL'
+  ): Promise<void> {
+    await this.applyStructuralOperation(spreadsheetId, { type: 'merge', range, mergeType });
+  }
+
+  /**
+   * Break up any merged cells within a range
+   */
+  async unmergeCells(spreadsheetId: string, range: string): Promise<void> {
+    await this.applyStructuralOperation(spreadsheetId, { type: 'unmerge', range });
+  }
+
+  /**
+   * Rename a sheet
+   */
+  async renameSheet(spreadsheetId: string, sheetName: string, newName: string): Promise<void> {
+    await this.applyStructuralOperation(spreadsheetId, { type: 'renameSheet', sheetName, newName });
+  }
+
+  /**
+   * Delete a sheet from the spreadsheet
+   */
+  async deleteSheet(spreadsheetId: string, sheetName: string): Promise<void> {
+    await this.applyStructuralOperation(spreadsheetId, { type: 'deleteSheet', sheetName });
+  }
+
+  /**
+   * Copy a sheet within the spreadsheet
+   */
+  async duplicateSheet(spreadsheetId: string, sheetName: string, newName?: string, newIndex?: number): Promise<SheetInfo> {
+    return await this.applyStructuralOperation(spreadsheetId, { type: 'duplicateSheet', sheetName, newName, newIndex });
+  }
+
+  /**
+   * Hide or unhide a sheet
+   */
+  async setSheetHidden(spreadsheetId: string, sheetName: string, hidden: boolean): Promise<void> {
+    await this.applyStructuralOperation(spreadsheetId, { type: 'hideSheet', sheetName, hidden });
+  }
+
+  /**
+   * Move a sheet to a new position in the tab order
+   */
+  async moveSheet(spreadsheetId: string, sheetName: string, newIndex: number): Promise<void> {
+    await this.applyStructuralOperation(spreadsheetId, { type: 'moveSheet', sheetName, newIndex });
+  }
+
+  /**
+   * Freeze the leading rows and/or columns of a sheet
+   */
+  async freezePanes(spreadsheetId: string, sheetName: string, frozenRows?: number, frozenColumns?: number): Promise<void> {
+    await this.applyStructuralOperation(spreadsheetId, { type: 'freeze', sheetName, frozenRows, frozenColumns });
+  }
+
+  /**
+   * Execute a sheets operation, or preview its changes when dryRun is set
+   */
+  async executeOperation(spreadsheetId: string, operation: SheetsOperation, options: ExecuteOptions = {}): Promise<any> {
+    this.validateOperation(operation);
+
+    if (options.dryRun) {
+      return await this.previewOperation(spreadsheetId, operation);
+    }
+
+    switch (operation.type) {
+      case 'read':
+        return await this.readRange(spreadsheetId, operation.range!);
+
+      case 'write':
+        return await this.writeRange(spreadsheetId, operation.range!, operation.values!);
+
+      case 'create':
+        return await this.createSheet(spreadsheetId, operation.sheetName!);
+
+      case 'formula':
+        return await this.setFormula(spreadsheetId, operation.range!, operation.formula!);
+
+      case 'format':
+        return await this.formatCells(spreadsheetId, operation.range!, operation.formatting!);
+
+      default:
+        return await this.applyStructuralOperation(spreadsheetId, operation);
+    }
+  }
+
+  /**
+   * Apply an ordered list of operations using as few API round-trips as possible.
+   * Consecutive operations that go through the same endpoint are sent in one call.
+   * With atomic set, steps already applied are rolled back if a later step fails.
+   */
+  async executeBatch(spreadsheetId: string, operations: SheetsOperation[], options: BatchOptions = {}): Promise<BatchResult> {
+    const results: BatchOperationResult[] = operations.map((operation, index) => ({
+      index,
+      type: operation.type,
+      status: 'skipped',
+    }));
+    const batch: BatchResult = { success: false, results, rolledBack: false, apiCalls: 0 };
+
+    // Refuse the whole batch up front if any step is malformed
+    let invalid = false;
+    operations.forEach((operation, index) => {
+      try {
+        this.validateOperation(operation);
+      } catch (error: any) {
+        results[index].status = 'failed';
+        results[index].error = error.message;
+        results[index].code = error instanceof ApiError ? error.code : undefined;
+        invalid = true;
+      }
+    });
+    if (invalid) return batch;
+
+    const spreadsheetInfo = await this.getSpreadsheetInfo(spreadsheetId);
+    batch.apiCalls++;
+
+    // Working copy that tracks sheets added, renamed or deleted as the batch proceeds
+    const workingInfo: SpreadsheetInfo = { ...spreadsheetInfo, sheets: spreadsheetInfo.sheets.map(sheet => ({ ...sheet })) };
+    const keepSnapshots = !!options.atomic || !!this.history;
+    const applied: Array<{ index: number; snapshot?: Snapshot }> = [];
+    const undoSegments: Snapshot[][] = []; // In restore order, as BatchSnapshot keeps them
+
+    for (const segment of this.groupBatchSegments(operations, keepSnapshots)) {
+      try {
+        // Snapshots describe the sheets as they were before this segment's requests
+        const before: SpreadsheetInfo = { ...workingInfo, sheets: workingInfo.sheets.map(sheet => ({ ...sheet })) };
+        const requests = segment.kind === 'structure' ? this.buildSegmentRequests(segment, operations, workingInfo) : [];
+
+        let snapshots: Array<Snapshot | undefined> = [];
+        if (keepSnapshots) {
+          const steps = segment.indices.map((index, i) => ({ operation: operations[index], request: requests[i] }));
+          const snapshotted = await this.snapshotSegment(spreadsheetId, steps, before);
+          snapshots = snapshotted.snapshots;
+          if (snapshotted.read) batch.apiCalls++;
+        }
+
+        const segmentResults = await this.applyBatchSegment(spreadsheetId, segment, operations, requests);
+        batch.apiCalls++;
+
+        segment.indices.forEach((index, i) => {
+          results[index].status = 'applied';
+          results[index].result = segmentResults[i];
+          applied.push({ index, snapshot: snapshots[i] });
+        });
+        const taken = snapshots.filter((snapshot): snapshot is Snapshot => !!snapshot).reverse();
+        if (taken.length > 0) undoSegments.unshift(taken);
+      } catch (error: any) {
+        this.log.error('Error applying batch segment', { error });
+        const failure = fromGoogleError(error, 'Failed to apply batch step');
+        for (const index of segment.indices) {
+          results[index].status = 'failed';
+          results[index].error = failure.message;
+          results[index].code = failure instanceof ApiError ? failure.code : undefined;
+        }
+
+        if (options.atomic && applied.length > 0) {
+          batch.rolledBack = await this.rollbackBatch(spreadsheetId, { kind: 'batch', segments: undoSegments });
+          batch.apiCalls++;
+          if (batch.rolledBack) {
+            // Reads changed nothing, so they stay applied
+            for (const { index } of applied) {
+              if (operations[index].type !== 'read') results[index].status = 'rolled_back';
+            }
+          }
+        }
+        break;
+      }
+    }
+
+    // The whole batch is undone as one change
+    const changed = applied.filter(step => step.snapshot).map(step => operations[step.index]);
+    if (!batch.rolledBack && changed.length > 0) {
+      const targets = [...new Set(changed.map(operation => operation.range || operation.sheetName || ''))];
+      const operation = changed.length === 1 ? changed[0].type : 'batch';
+      this.recordHistory(spreadsheetId, operation, targets.join(', '), this.toHistorySnapshot(undoSegments));
+    }
+
+    batch.success = results.every(result => result.status === 'applied');
+    return batch;
+  }
+
+  /**
+   * Compute the cell-level changes an operation would make without applying it
+   */
+  async previewOperation(spreadsheetId: string, operation: SheetsOperation): Promise<OperationDiff> {
+    this.validateOperation(operation);
+
+    const diff: OperationDiff = {
+      operation: operation.type,
+      range: operation.range,
+      cells: [],
+      formats: [],
+      hasChanges: false,
+    };
+
+    try {
+      switch (operation.type) {
+        case 'write':
+          diff.cells = await this.diffValues(spreadsheetId, operation.range!, operation.values!);
+          break;
+
+        case 'formula':
+          diff.cells = await this.diffValues(spreadsheetId, operation.range!, [[operation.formula]]);
+          break;
+
+        case 'format':
+          diff.formats = await this.diffFormats(spreadsheetId, operation.range!, operation.formatting!);
+          break;
+
+        case 'create': {
+          const spreadsheetInfo = await this.getSpreadsheetInfo(spreadsheetId);
+          if (spreadsheetInfo.sheets.some(s => s.title === operation.sheetName)) {
+            throw new ConflictError(`Sheet ${operation.sheetName} already exists`);
+          }
+          diff.newSheet = { title: operation.sheetName! };
+          break;
+        }
+
+        case 'read':
+          break;
+
+        default: {
+          // Structural changes are checked against the sheet list and summarized
+          const spreadsheetInfo = await this.getSpreadsheetInfo(spreadsheetId);
+          this.buildStructuralRequest(operation, spreadsheetInfo);
+          diff.description = this.describeStructuralOperation(operation);
+          break;
+        }
+      }
     } catch (error: any) {
-      console.error('Error formatting cells:', error);
-      throw new Error(`Failed to format cells in ${range}: ${error.message}`);
+      this.log.error('Error previewing operation', { error });
+      throw fromGoogleError(error, `Failed to preview ${operation.type} operation`);
     }
+
+    diff.hasChanges = diff.cells.length > 0 || diff.formats.length > 0 || !!diff.newSheet || !!diff.description;
+    return diff;
   }
 
   /**
-   * Execute a sheets operation
+   * Check an operation has the fields its type requires
    */
-  async executeOperation(spreadsheetId: string, operation: SheetsOperation): Promise<any> {
+  validateOperation(operation: SheetsOperation): void {
     switch (operation.type) {
       case 'read':
-        if (!operation.range) throw new Error('Range required for read operation');
-        return await this.readRange(spreadsheetId, operation.range);
+        if (!operation.range) throw new InvalidOperationError('Range required for read operation');
+        break;
 
       case 'write':
         if (!operation.range || !operation.values) {
-          throw new Error('Range and values required for write operation');
+          throw new InvalidOperationError('Range and values required for write operation');
         }
-        return await this.writeRange(spreadsheetId, operation.range, operation.values);
+        break;
 
       case 'create':
-        if (!operation.sheetName) throw new Error('Sheet name required for create operation');
-        return await this.createSheet(spreadsheetId, operation.sheetName);
+        if (!operation.sheetName) throw new InvalidOperationError('Sheet name required for create operation');
+        break;
 
       case 'formula':
         if (!operation.range || !operation.formula) {
-          throw new Error('Range and formula required for formula operation');
+          throw new InvalidOperationError('Range and formula required for formula operation');
         }
-        return await this.setFormula(spreadsheetId, operation.range, operation.formula);
+        break;
 
       case 'format':
         if (!operation.range || !operation.formatting) {
-          throw new Error('Range and formatting required for format operation');
+          throw new InvalidOperationError('Range and formatting required for format operation');
+        }
+        break;
+
+      case 'insertRows':
+      case 'deleteRows':
+      case 'insertColumns':
+      case 'deleteColumns':
+        if (!operation.sheetName || !this.isIndex(operation.startIndex) || !this.isIndex(operation.count) || operation.count < 1) {
+          throw new InvalidOperationError(`Sheet name, startIndex and a positive count required for ${operation.type} operation`);
+        }
+        break;
+
+      case 'sort':
+        if (!operation.range || !operation.sortSpecs?.length) {
+          throw new InvalidOperationError('Range and at least one sort spec required for sort operation');
+        }
+        for (const spec of operation.sortSpecs) {
+          if (!/^[A-Z]+$/i.test(spec.column || '')) {
+            throw new InvalidOperationError(`Invalid sort column: ${spec.column}`);
+          }
+        }
+        break;
+
+      case 'merge':
+      case 'unmerge':
+        if (!operation.range) throw new InvalidOperationError(`Range required for ${operation.type} operation`);
+        break;
+
+      case 'renameSheet':
+        if (!operation.sheetName || !operation.newName) {
+          throw new InvalidOperationError('Sheet name and new name required for renameSheet operation');
+        }
+        break;
+
+      case 'deleteSheet':
+        if (!operation.sheetName) throw new InvalidOperationError('Sheet name required for deleteSheet operation');
+        break;
+
+      case 'duplicateSheet':
+        if (!operation.sheetName) throw new InvalidOperationError('Sheet name required for duplicateSheet operation');
+        if (operation.newIndex !== undefined && !this.isIndex(operation.newIndex)) {
+          throw new InvalidOperationError('newIndex must be a non-negative integer');
+        }
+        break;
+
+      case 'hideSheet':
+        if (!operation.sheetName) throw new InvalidOperationError('Sheet name required for hideSheet operation');
+        if (operation.hidden !== undefined && typeof operation.hidden !== 'boolean') {
+          throw new InvalidOperationError('hidden must be true or false');
+        }
+        break;
+
+      case 'moveSheet':
+        if (!operation.sheetName || !this.isIndex(operation.newIndex)) {
+          throw new InvalidOperationError('Sheet name and newIndex required for moveSheet operation');
+        }
+        break;
+
+      case 'freeze':
+        if (!operation.sheetName) throw new InvalidOperationError('Sheet name required for freeze operation');
+        if (operation.frozenRows === undefined && operation.frozenColumns === undefined) {
+          throw new InvalidOperationError('frozenRows or frozenColumns required for freeze operation');
+        }
+        if ((operation.frozenRows !== undefined && !this.isIndex(operation.frozenRows))
+          || (operation.frozenColumns !== undefined && !this.isIndex(operation.frozenColumns))) {
+          throw new InvalidOperationError('frozenRows and frozenColumns must be non-negative integers');
         }
-        return await this.formatCells(spreadsheetId, operation.range, operation.formatting);
+        break;
 
       default:
-        throw new Error(`Unknown operation type: ${operation.type}`);
+        throw new InvalidOperationError(`Unknown operation type: ${operation.type}`);
+    }
+  }
+
+  /**
+   * Compare the current contents of a range with values that would be written to it
+   */
+  private async diffValues(spreadsheetId: string, range: string, values: any[][]): Promise<CellChange[]> {
+    const gridRange = this.expandToValues(await this.resolveGridRange(spreadsheetId, range), values);
+    const startRow = gridRange.startRowIndex ?? 0;
+    const startCol = gridRange.startColumnIndex ?? 0;
+
+    const rows = await this.readGridData(spreadsheetId, gridRange, 'userEnteredValue,effectiveValue');
+
+    const changes: CellChange[] = [];
+
+    values.forEach((row, r) => {
+      row.forEach((newRaw, c) => {
+        // Null leaves the cell untouched in a values update
+        if (newRaw === null || newRaw === undefined) return;
+
+        const current = rows[r]?.values?.[c];
+        const oldFormula: string | undefined = current?.userEnteredValue?.formulaValue;
+        const oldValue = this.extendedValueToPlain(current?.effectiveValue);
+        const newFormula = typeof newRaw === 'string' && newRaw.startsWith('=') ? newRaw : undefined;
+
+        const changed = newFormula !== undefined
+          ? newFormula !== oldFormula
+          : oldFormula !== undefined || String(oldValue ?? '') !== String(newRaw);
+
+        if (changed) {
+          changes.push({
+            cell: cellAddress(startRow + r, startCol + c),
+            oldValue,
+            newValue: newFormula === undefined ? newRaw : undefined,
+            oldFormula,
+            newFormula,
+          });
+        }
+      });
+    });
+
+    return changes;
+  }
+
+  /**
+   * Compare the current formats of a range with formatting that would be applied to it
+   */
+  private async diffFormats(spreadsheetId: string, range: string, formatting: CellFormatting): Promise<FormatChange[]> {
+    // Whole rows or columns are compared up to the edges of the sheet
+    const spreadsheetInfo = await this.getSpreadsheetInfo(spreadsheetId);
+    const unbounded = resolveGridRange(range, spreadsheetInfo.sheets, spreadsheetInfo.namedRanges);
+    const sheet = spreadsheetInfo.sheets.find(s => s.id === unbounded.sheetId)!;
+    const gridRange = boundGridRange(unbounded, sheet);
+    const startRow = gridRange.startRowIndex;
+    const startCol = gridRange.startColumnIndex;
+    const height = gridRange.endRowIndex - startRow;
+    const width = gridRange.endColumnIndex - startCol;
+
+    const rows = await this.readGridData(spreadsheetId, gridRange, 'userEnteredFormat');
+    const requested = this.normalizeFormatting(formatting);
+    const changes: FormatChange[] = [];
+
+    for (let r = 0; r < height; r++) {
+      for (let c = 0; c < width; c++) {
+        const current = this.formatToCellFormatting(rows[r]?.values?.[c]?.userEnteredFormat);
+
+        for (const property of Object.keys(requested) as Array<keyof CellFormatting>) {
+          // Compare only the parts of nested properties (borders, numberFormat) that were requested
+          const oldValue = this.projectOnto(current[property], requested[property]);
+          if (JSON.stringify(oldValue) !== JSON.stringify(requested[property])) {
+            changes.push({
+              cell: cellAddress(startRow + r, startCol + c),
+              property,
+              oldValue,
+              newValue: requested[property],
+            });
+          }
+        }
+      }
     }
+
+    return changes;
   }
 
   /**
-   * Convert A1 notation to grid range for API calls
+   * Drop unset properties and normalize colors so formatting can be compared
    */
-  private a1ToGridRange(a1Range: string, sheetId: number): any {
-    // Simple implementation - can be enhanced for complex ranges
-    const match = a1Range.match(/([A-Z]+)(\d+):([A-Z]+)(\d+)/);
-    if (!match) {
-      throw new Error(`Invalid range format: ${a1Range}`);
+  private normalizeFormatting(formatting: CellFormatting): CellFormatting {
+    const normalized: CellFormatting = {};
+    const normalizeColor = (hex: string) => this.rgbToHex(this.hexToRgb(hex));
+
+    for (const [property, value] of Object.entries(formatting) as Array<[keyof CellFormatting, any]>) {
+      if (value === undefined) continue;
+
+      if (property === 'backgroundColor' || property === 'textColor') {
+        normalized[property] = normalizeColor(value);
+      } else if (property === 'borders') {
+        const borders: CellBorders = {};
+        for (const side of BORDER_SIDES) {
+          const border = value[side];
+          if (border) borders[side] = border.color ? { ...border, color: normalizeColor(border.color) } : border;
+        }
+        normalized.borders = borders;
+      } else {
+        this.setFormattingProperty(normalized, property, value);
+      }
     }
 
-    const [, startCol, startRow, endCol, endRow] = match;
-    
-    return {
-      sheetId,
-      startRowIndex: parseInt(startRow) - 1,
-      endRowIndex: parseInt(endRow),
-      startColumnIndex: this.columnToIndex(startCol),
-      endColumnIndex: this.columnToIndex(endCol) + 1,
+    return normalized;
+  }
+
+  /**
+   * Set a CellFormatting property picked at runtime, keeping the value tied to its key's type
+   */
+  private setFormattingProperty<K extends keyof CellFormatting>(formatting: CellFormatting, property: K, value: CellFormatting[K]): void {
+    formatting[property] = value;
+  }
+
+  /**
+   * Express a Sheets API CellFormat in CellFormatting terms
+   */
+  private formatToCellFormatting(format: any): CellFormatting {
+    const textFormat = format?.textFormat || {};
+    const formatting: CellFormatting = {
+      backgroundColor: format?.backgroundColor ? this.rgbToHex(format.backgroundColor) : undefined,
     };
+
+    for (const [property, apiName] of TEXT_FORMAT_PROPERTIES) {
+      const value = textFormat[apiName];
+      this.setFormattingProperty(formatting, property, property === 'textColor' && value ? this.rgbToHex(value) : value);
+    }
+
+    for (const property of CELL_FORMAT_PROPERTIES) {
+      this.setFormattingProperty(formatting, property, format?.[property]);
+    }
+
+    if (format?.numberFormat) {
+      formatting.numberFormat = { type: format.numberFormat.type, pattern: format.numberFormat.pattern };
+    }
+
+    if (format?.textRotation) {
+      formatting.textRotation = format.textRotation.vertical ? 'vertical' : format.textRotation.angle;
+    }
+
+    if (format?.borders) {
+      formatting.borders = {};
+      for (const side of BORDER_SIDES) {
+        const border = format.borders[side];
+        if (!border) continue;
+        formatting.borders[side] = {
+          style: border.style,
+          ...(border.color ? { color: this.rgbToHex(border.color) } : {}),
+        };
+      }
+    }
+
+    return formatting;
+  }
+
+  /**
+   * Reduce a current value to the keys present in a requested value, recursively
+   */
+  private projectOnto(current: any, requested: any): any {
+    if (!requested || typeof requested !== 'object') return current;
+
+    const projected: any = {};
+    for (const key of Object.keys(requested)) {
+      projected[key] = this.projectOnto(current?.[key], requested[key]);
+    }
+    return projected;
+  }
+
+  /**
+   * Unwrap a Sheets API ExtendedValue
+   */
+  private extendedValueToPlain(value: any): any {
+    if (!value) return undefined;
+    return value.stringValue ?? value.numberValue ?? value.boolValue ?? value.formulaValue ?? value.errorValue?.message;
+  }
+
+  /**
+   * Revert the most recent recorded mutation on a spreadsheet
+   */
+  async undo(spreadsheetId: string): Promise<HistoryEntry | null> {
+    if (!this.history) return null;
+
+    const entry = this.history.popUndo(spreadsheetId);
+    if (!entry) return null;
+
+    return this.swapHistoryEntry(spreadsheetId, entry, 'undo');
+  }
+
+  /**
+   * Re-apply the most recently undone mutation on a spreadsheet
+   */
+  async redo(spreadsheetId: string): Promise<HistoryEntry | null> {
+    if (!this.history) return null;
+
+    const entry = this.history.popRedo(spreadsheetId);
+    if (!entry) return null;
+
+    return this.swapHistoryEntry(spreadsheetId, entry, 'redo');
+  }
+
+  /**
+   * Restore an entry's snapshot and move it to the other stack with what it replaced.
+   * A batch goes one segment at a time, since a segment's current state can only be read
+   * in the right place once the segments after it are restored. If a segment fails, the
+   * ones already restored still move, so the stacks match the spreadsheet.
+   */
+  private async swapHistoryEntry(spreadsheetId: string, entry: HistoryEntry, action: 'undo' | 'redo'): Promise<HistoryEntry> {
+    const history = this.history!;
+    const [pushBack, pushSwapped] = action === 'undo'
+      ? [history.pushUndo.bind(history), history.pushRedo.bind(history)]
+      : [history.pushRedo.bind(history), history.pushUndo.bind(history)];
+
+    const segments = entry.snapshot.kind === 'batch' ? entry.snapshot.segments : [[entry.snapshot]];
+    const swapped: Snapshot[][] = [];
+
+    try {
+      for (const segment of segments) {
+        const current = await this.captureSnapshots(spreadsheetId, segment);
+        await this.restoreSnapshot(spreadsheetId, { kind: 'batch', segments: [segment] });
+        // Restored the other way round: this segment last, its steps in their original order
+        swapped.unshift(current.reverse());
+      }
+      pushSwapped({ ...entry, snapshot: this.toHistorySnapshot(swapped) });
+      return entry;
+    } catch (error: any) {
+      if (swapped.length > 0) pushSwapped({ ...entry, snapshot: this.toHistorySnapshot(swapped) });
+      pushBack({ ...entry, snapshot: this.toHistorySnapshot(segments.slice(swapped.length)) });
+      this.log.error(`Error ${action === 'undo' ? 'undoing' : 'redoing'} change`, { error });
+      throw fromGoogleError(error, `Failed to ${action} ${entry.operation} on ${entry.target}`);
+    }
+  }
+
+  /**
+   * Apply a single structural operation in one batchUpdate call
+   */
+  private async applyStructuralOperation(spreadsheetId: string, operation: SheetsOperation): Promise<any> {
+    this.validateOperation(operation);
+
+    try {
+      const spreadsheetInfo = await this.getSpreadsheetInfo(spreadsheetId);
+      const request = this.buildStructuralRequest(operation, spreadsheetInfo);
+      const snapshot = await this.snapshotStructuralOperation(spreadsheetId, operation, request, spreadsheetInfo);
+
+      const response = await this.sheets.spreadsheets.batchUpdate({
+        spreadsheetId,
+        requestBody: {
+          requests: [request],
+        },
+      });
+      this.recordHistory(spreadsheetId, operation.type, operation.range || operation.sheetName!, snapshot);
+
+      const newSheet = response.data.replies?.[0]?.duplicateSheet?.properties;
+      return newSheet ? this.toSheetInfo(newSheet) : undefined;
+    } catch (error: any) {
+      this.log.error('Error applying operation', { operationType: operation.type, error });
+      // Lowercase just the leading verb; sheet names keep their case
+      const description = this.describeStructuralOperation(operation);
+      throw fromGoogleError(error, `Failed to ${description.charAt(0).toLowerCase()}${description.slice(1)}`);
+    }
   }
 
   /**
-   * Convert column letter to index (A=0, B=1, etc.)
+   * Snapshot what a structural operation will change, if history is being kept
    */
-  private columnToIndex(column: string): number {
-    let result = 0;
-    for (let i = 0; i < column.length; i++) {
-      result = result * 26 + (column.charCodeAt(i) - 'A'.charCodeAt(0) + 1);
+  private async snapshotStructuralOperation(
+    spreadsheetId: string,
+    operation: SheetsOperation,
+    request: any,
+    spreadsheetInfo: SpreadsheetInfo
+  ): Promise<Snapshot | undefined> {
+    if (!this.history) return undefined;
+
+    // Sorting only moves cell contents around, so the range itself is enough to restore
+    if (operation.type === 'sort') {
+      return this.captureRange(spreadsheetId, resolveGridRange(operation.range!, spreadsheetInfo.sheets, spreadsheetInfo.namedRanges));
     }
-    return result - 1;
+    return this.captureStructure(spreadsheetId, operation, request);
+  }
+
+  /**
+   * Build the batchUpdate request for a structural operation
+   */
+  private buildStructuralRequest(operation: SheetsOperation, spreadsheetInfo: SpreadsheetInfo): any {
+    const { sheets } = spreadsheetInfo;
+
+    switch (operation.type) {
+      case 'insertRows':
+      case 'insertColumns':
+      case 'deleteRows':
+      case 'deleteColumns': {
+        const sheet = this.findSheet(sheets, operation.sheetName!);
+        const range = {
+          sheetId: sheet.id,
+          dimension: operation.type.endsWith('Rows') ? 'ROWS' : 'COLUMNS',
+          startIndex: operation.startIndex!,
+          endIndex: operation.startIndex! + operation.count!,
+        };
+
+        return operation.type.startsWith('insert')
+          ? { insertDimension: { range, inheritFromBefore: operation.startIndex! > 0 } }
+          : { deleteDimension: { range } };
+      }
+
+      case 'sort':
+        return {
+          sortRange: {
+            range: resolveGridRange(operation.range!, spreadsheetInfo.sheets, spreadsheetInfo.namedRanges),
+            sortSpecs: operation.sortSpecs!.map(spec => ({
+              dimensionIndex: columnToIndex(spec.column.toUpperCase()),
+              sortOrder: spec.ascending === false ? 'DESCENDING' : 'ASCENDING',
+            })),
+          },
+        };
+
+      case 'merge':
+        return {
+          mergeCells: {
+            range: resolveGridRange(operation.range!, spreadsheetInfo.sheets, spreadsheetInfo.namedRanges),
+            mergeType: operation.mergeType || 'MERGE_ALL',
+          },
+        };
+
+      case 'unmerge':
+        return {
+          unmergeCells: {
+            range: resolveGridRange(operation.range!, spreadsheetInfo.sheets, spreadsheetInfo.namedRanges),
+          },
+        };
+
+      case 'renameSheet':
+        return this.buildSheetPropertiesRequest(sheets, operation.sheetName!, { title: operation.newName }, 'title');
+
+      case 'deleteSheet':
+        return { deleteSheet: { sheetId: this.findSheet(sheets, operation.sheetName!).id } };
+
+      case 'duplicateSheet':
+        return {
+          duplicateSheet: {
+            sourceSheetId: this.findSheet(sheets, operation.sheetName!).id,
+            // Chosen here so the copy can be removed again on undo or rollback
+            newSheetId: this.nextSheetId(sheets),
+            newSheetName: operation.newName,
+            insertSheetIndex: operation.newIndex,
+          },
+        };
+
+      case 'hideSheet':
+        return this.buildSheetPropertiesRequest(sheets, operation.sheetName!, { hidden: operation.hidden ?? true }, 'hidden');
+
+      case 'moveSheet':
+        return this.buildSheetPropertiesRequest(sheets, operation.sheetName!, { index: operation.newIndex }, 'index');
+
+      case 'freeze': {
+        const gridProperties: any = {};
+        const fields: string[] = [];
+        if (operation.frozenRows !== undefined) {
+          gridProperties.frozenRowCount = operation.frozenRows;
+          fields.push('gridProperties.frozenRowCount');
+        }
+        if (operation.frozenColumns !== undefined) {
+          gridProperties.frozenColumnCount = operation.frozenColumns;
+          fields.push('gridProperties.frozenColumnCount');
+        }
+        return this.buildSheetPropertiesRequest(sheets, operation.sheetName!, { gridProperties }, fields.join(','));
+      }
+
+      default:
+        throw new Error(`Not a structural operation: ${operation.type}`);
+    }
+  }
+
+  /**
+   * Build an updateSheetProperties request for the named sheet
+   */
+  private buildSheetPropertiesRequest(sheets: SheetInfo[], sheetName: string, properties: any, fields: string): any {
+    return {
+      updateSheetProperties: {
+        properties: { sheetId: this.findSheet(sheets, sheetName).id, ...properties },
+        fields,
+      },
+    };
+  }
+
+  /**
+   * Keep locally cached sheet metadata in step with structural changes made within a batch
+   */
+  private trackStructuralChange(operation: SheetsOperation, sheets: SheetInfo[]): void {
+    if (operation.type === 'renameSheet') {
+      this.findSheet(sheets, operation.sheetName!).title = operation.newName!;
+    } else if (operation.type === 'deleteSheet') {
+      sheets.splice(sheets.indexOf(this.findSheet(sheets, operation.sheetName!)), 1);
+    }
+  }
+
+  /**
+   * Describe a structural operation in a short sentence
+   */
+  private describeStructuralOperation(operation: SheetsOperation): string {
+    const plural = (n: number, noun: string) => `${n} ${noun}${n === 1 ? '' : 's'}`;
+
+    switch (operation.type) {
+      case 'insertRows':
+        return `Insert ${plural(operation.count!, 'row')} before row ${operation.startIndex! + 1} of ${operation.sheetName}`;
+      case 'deleteRows':
+        return `Delete ${plural(operation.count!, 'row')} starting at row ${operation.startIndex! + 1} of ${operation.sheetName}`;
+      case 'insertColumns':
+        return `Insert ${plural(operation.count!, 'column')} before column ${indexToColumn(operation.startIndex!)} of ${operation.sheetName}`;
+      case 'deleteColumns':
+        return `Delete ${plural(operation.count!, 'column')} starting at column ${indexToColumn(operation.startIndex!)} of ${operation.sheetName}`;
+      case 'sort':
+        return `Sort ${operation.range} by ${operation.sortSpecs!.map(spec => `${spec.column.toUpperCase()} ${spec.ascending === false ? 'descending' : 'ascending'}`).join(', ')}`;
+      case 'merge':
+        return `Merge cells in ${operation.range}`;
+      case 'unmerge':
+        return `Unmerge cells in ${operation.range}`;
+      case 'renameSheet':
+        return `Rename sheet ${operation.sheetName} to ${operation.newName}`;
+      case 'deleteSheet':
+        return `Delete sheet ${operation.sheetName}`;
+      case 'duplicateSheet':
+        return `Duplicate sheet ${operation.sheetName}${operation.newName ? ` as ${operation.newName}` : ''}`;
+      case 'hideSheet':
+        return `${operation.hidden === false ? 'Unhide' : 'Hide'} sheet ${operation.sheetName}`;
+      case 'moveSheet':
+        return `Move sheet ${operation.sheetName} to position ${operation.newIndex! + 1}`;
+      case 'freeze':
+        return `Freeze ${[
+          operation.frozenRows !== undefined ? plural(operation.frozenRows, 'row') : '',
+          operation.frozenColumns !== undefined ? plural(operation.frozenColumns, 'column') : '',
+        ].filter(Boolean).join(' and ')} in ${operation.sheetName}`;
+      default:
+        return `Apply ${operation.type} operation`;
+    }
+  }
+
+  /**
+   * Look up a sheet by title
+   */
+  private findSheet(sheets: SheetInfo[], sheetName: string): SheetInfo {
+    const sheet = sheets.find(s => s.title === sheetName);
+    if (!sheet) {
+      throw new NotFoundError(`Sheet ${sheetName} not found`);
+    }
+    return sheet;
+  }
+
+  /**
+   * Convert Sheets API SheetProperties to SheetInfo
+   */
+  private toSheetInfo(properties: any): SheetInfo {
+    return {
+      id: properties.sheetId,
+      title: properties.title,
+      rowCount: properties.gridProperties?.rowCount || 1000,
+      columnCount: properties.gridProperties?.columnCount || 26,
+    };
+  }
+
+  /**
+   * Whether a value is a non-negative integer
+   */
+  private isIndex(value: unknown): value is number {
+    return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+  }
+
+  /**
+   * Split batch operations into runs that share an API endpoint, preserving order.
+   * When snapshots are kept, layout changes are sent on their own.
+   */
+  private groupBatchSegments(operations: SheetsOperation[], isolateLayout: boolean): BatchSegment[] {
+    const segments: BatchSegment[] = [];
+    let isolated = false;
+
+    operations.forEach((operation, index) => {
+      const kind: BatchSegment['kind'] = operation.type === 'read'
+        ? 'read'
+        : operation.type === 'write' || operation.type === 'formula'
+          ? 'values'
+          : 'structure';
+      const layout = isolateLayout && LAYOUT_OPERATIONS.includes(operation.type);
+
+      const last = segments[segments.length - 1];
+      if (last && last.kind === kind && !layout && !isolated) {
+        last.indices.push(index);
+      } else {
+        segments.push({ kind, indices: [index] });
+      }
+      isolated = layout;
+    });
+
+    return segments;
+  }
+
+  /**
+   * Build the batchUpdate requests for a structure segment, keeping the working sheet
+   * list in step. New sheets get their ids here so later steps can target them.
+   */
+  private buildSegmentRequests(segment: BatchSegment, operations: SheetsOperation[], spreadsheetInfo: SpreadsheetInfo): any[] {
+    return segment.indices.map(index => {
+      const operation = operations[index];
+
+      if (operation.type === 'create') {
+        const sheetId = this.nextSheetId(spreadsheetInfo.sheets);
+        spreadsheetInfo.sheets.push({ id: sheetId, title: operation.sheetName!, rowCount: 1000, columnCount: 26 });
+        return { addSheet: { properties: { sheetId, title: operation.sheetName } } };
+      }
+
+      if (operation.type === 'format') {
+        return this.buildFormatRequest(resolveGridRange(operation.range!, spreadsheetInfo.sheets, spreadsheetInfo.namedRanges), operation.formatting!);
+      }
+
+      const request = this.buildStructuralRequest(operation, spreadsheetInfo);
+      this.trackStructuralChange(operation, spreadsheetInfo.sheets);
+      return request;
+    });
+  }
+
+  /**
+   * Send one segment of a batch as a single API call and return per-operation results
+   */
+  private async applyBatchSegment(
+    spreadsheetId: string,
+    segment: BatchSegment,
+    operations: SheetsOperation[],
+    requests: any[]
+  ): Promise<any[]> {
+    const segmentOperations = segment.indices.map(index => operations[index]);
+
+    if (segment.kind === 'read') {
+      const response = await this.sheets.spreadsheets.values.batchGet({
+        spreadsheetId,
+        ranges: segmentOperations.map(operation => toA1Notation(operation.range!)),
+        valueRenderOption: 'UNFORMATTED_VALUE',
+        dateTimeRenderOption: 'FORMATTED_STRING',
+      });
+
+      return (response.data.valueRanges || []).map((valueRange: any, i: number): CellData => ({
+        values: valueRange.values || [],
+        range: valueRange.range || segmentOperations[i].range!,
+      }));
+    }
+
+    if (segment.kind === 'values') {
+      const response = await this.sheets.spreadsheets.values.batchUpdate({
+        spreadsheetId,
+        requestBody: {
+          valueInputOption: 'USER_ENTERED',
+          data: segmentOperations.map(operation => ({
+            range: toA1Notation(operation.range!),
+            values: operation.type === 'formula' ? [[operation.formula]] : operation.values,
+          })),
+        },
+      });
+
+      return (response.data.responses || []).map((update: any) => ({
+        updatedRange: update.updatedRange,
+        updatedCells: update.updatedCells,
+      }));
+    }
+
+    const response = await this.sheets.spreadsheets.batchUpdate({
+      spreadsheetId,
+      requestBody: { requests },
+    });
+
+    return segmentOperations.map((operation, i) => {
+      const reply = response.data.replies?.[i];
+      const newSheet = reply?.addSheet?.properties || reply?.duplicateSheet?.properties;
+      return newSheet ? this.toSheetInfo(newSheet) : undefined;
+    });
+  }
+
+  /**
+   * Snapshot what a segment's steps will change, given the sheets as they were before the
+   * segment, with one read for all of them. Steps on sheets the batch has not created yet
+   * are skipped, since removing the new sheet covers them.
+   */
+  private async snapshotSegment(
+    spreadsheetId: string,
+    steps: Array<{ operation: SheetsOperation; request: any }>,
+    spreadsheetInfo: SpreadsheetInfo
+  ): Promise<{ snapshots: Array<Snapshot | undefined>; read: boolean }> {
+    const plans = steps.map(({ operation, request }) => this.planBatchSnapshot(operation, request, spreadsheetInfo));
+    const reads = plans.flatMap(plan => (plan?.read ? [plan.read] : []));
+    const sheets = reads.length > 0 ? await this.readSnapshotSheets(spreadsheetId, reads) : [];
+
+    let next = 0;
+    const snapshots = plans.map(plan => plan?.build(plan.read ? sheets[next++] : {}));
+    return { snapshots, read: reads.length > 0 };
+  }
+
+  /**
+   * Work out what a batch step's snapshot needs read, and how to build it from the Sheets API
+   * Sheet read for it. Undefined when the step needs no snapshot.
+   */
+  private planBatchSnapshot(
+    operation: SheetsOperation,
+    request: any,
+    spreadsheetInfo: SpreadsheetInfo
+  ): { read?: GridRange; build(sheet: any): Snapshot } | undefined {
+    if (operation.type === 'read') return undefined;
+
+    if (operation.type === 'create') {
+      const { sheetId, title } = request.addSheet.properties;
+      return { build: () => ({ kind: 'sheet', sheetId, title, exists: false }) };
+    }
+
+    let gridRange: GridRange | undefined;
+    try {
+      if (operation.range) {
+        gridRange = resolveGridRange(operation.range, spreadsheetInfo.sheets, spreadsheetInfo.namedRanges);
+      } else {
+        this.findSheet(spreadsheetInfo.sheets, operation.sheetName!);
+      }
+    } catch {
+      return undefined;
+    }
+
+    switch (operation.type) {
+      case 'write': {
+        const written = this.expandToValues(gridRange!, operation.values!);
+        return { read: written, build: sheet => this.toRangeSnapshot(written, sheet) };
+      }
+      case 'formula':
+      case 'format':
+      case 'sort':
+        return { read: gridRange!, build: sheet => this.toRangeSnapshot(gridRange!, sheet) };
+      default:
+        return {
+          read: this.structureRead(operation, request),
+          build: sheet => this.buildStructureSnapshot(operation, request, sheet),
+        };
+    }
+  }
+
+  /**
+   * Read what a structural operation will change or discard, and build the requests that
+   * put it back. Cell values and formats, merges and sheet properties are restored;
+   * charts, filters and conditional formats on deleted cells are not.
+   */
+  private async captureStructure(spreadsheetId: string, operation: SheetsOperation, request: any): Promise<StructureSnapshot> {
+    const read = this.structureRead(operation, request);
+    const [sheet] = read ? await this.readSnapshotSheets(spreadsheetId, [read]) : [{}];
+    return this.buildStructureSnapshot(operation, request, sheet);
+  }
+
+  /**
+   * The part of the spreadsheet a structural operation's undo needs read, if any
+   */
+  private structureRead(operation: SheetsOperation, request: any): GridRange | undefined {
+    switch (operation.type) {
+      case 'insertRows':
+      case 'insertColumns':
+      case 'duplicateSheet':
+        return undefined;
+
+      case 'deleteRows':
+      case 'deleteColumns':
+        return this.dimensionGridRange(request.deleteDimension.range);
+
+      case 'merge':
+      case 'unmerge':
+        return (request.mergeCells || request.unmergeCells).range;
+
+      case 'renameSheet':
+      case 'hideSheet':
+      case 'moveSheet':
+      case 'freeze': {
+        // Only the sheet's properties are needed; one cell is enough to pick out the sheet
+        const { sheetId } = request.updateSheetProperties.properties;
+        return { sheetId, startRowIndex: 0, endRowIndex: 1, startColumnIndex: 0, endColumnIndex: 1 };
+      }
+
+      case 'deleteSheet':
+        return { sheetId: request.deleteSheet.sheetId };
+
+      default:
+        throw new Error(`Not a structural operation: ${operation.type}`);
+    }
+  }
+
+  /**
+   * Build the requests that put back what a structural operation changes, from the Sheets API
+   * Sheet read for it by structureRead
+   */
+  private buildStructureSnapshot(operation: SheetsOperation, request: any, sheet: any): StructureSnapshot {
+    const snapshot: StructureSnapshot = { kind: 'structure', restore: [], reapply: [request] };
+    const rows = sheet.data?.[0]?.rowData || [];
+
+    switch (operation.type) {
+      case 'insertRows':
+      case 'insertColumns':
+        snapshot.restore = [{ deleteDimension: { range: request.insertDimension.range } }];
+        break;
+
+      case 'deleteRows':
+      case 'deleteColumns': {
+        const { range } = request.deleteDimension;
+        snapshot.restore = [
+          { insertDimension: { range, inheritFromBefore: false } },
+          this.buildRestoreCellsRequest(this.dimensionGridRange(range), rows),
+        ];
+        break;
+      }
+
+      case 'merge':
+      case 'unmerge': {
+        const gridRange: GridRange = (request.mergeCells || request.unmergeCells).range;
+        const merges = (sheet.merges || []).filter((merge: GridRange) => this.overlaps(merge, gridRange));
+        snapshot.restore = [
+          { unmergeCells: { range: gridRange } },
+          this.buildRestoreCellsRequest(gridRange, rows),
+          ...merges.map((merge: GridRange) => ({ mergeCells: { range: merge, mergeType: 'MERGE_ALL' } })),
+        ];
+        break;
+      }
+
+      case 'renameSheet':
+      case 'hideSheet':
+      case 'moveSheet':
+      case 'freeze': {
+        const { properties, fields } = request.updateSheetProperties;
+        const previous = this.pickFields(sheet.properties || {}, fields);
+
+        if (operation.type === 'moveSheet') {
+          // Indexes count positions before the move, so moving right lands one short of the index given
+          const oldIndex = previous.index ?? 0;
+          const newPosition = properties.index > oldIndex ? properties.index - 1 : properties.index;
+          previous.index = oldIndex > newPosition ? oldIndex + 1 : oldIndex;
+        }
+
+        snapshot.restore = [{ updateSheetProperties: { properties: { ...previous, sheetId: properties.sheetId }, fields } }];
+        break;
+      }
+
+      case 'deleteSheet': {
+        const { sheetId } = request.deleteSheet;
+        snapshot.restore = [
+          { addSheet: { properties: sheet.properties } },
+          this.buildRestoreCellsRequest({ sheetId }, rows),
+          ...(sheet.merges || []).map((merge: GridRange) => ({ mergeCells: { range: merge, mergeType: 'MERGE_ALL' } })),
+        ];
+        break;
+      }
+
+      case 'duplicateSheet':
+        snapshot.restore = [{ deleteSheet: { sheetId: request.duplicateSheet.newSheetId } }];
+        break;
+
+      default:
+        throw new Error(`Not a structural operation: ${operation.type}`);
+    }
+
+    return snapshot;
+  }
+
+  /**
+   * The cells a Sheets API DimensionRange covers
+   */
+  private dimensionGridRange(range: any): GridRange {
+    return range.dimension === 'ROWS'
+      ? { sheetId: range.sheetId, startRowIndex: range.startIndex, endRowIndex: range.endIndex }
+      : { sheetId: range.sheetId, startColumnIndex: range.startIndex, endColumnIndex: range.endIndex };
+  }
+
+  /**
+   * Copy the properties named in a field mask such as "title,gridProperties.frozenRowCount".
+   * Properties Google left out because they hold their default are copied as undefined,
+   * which the same mask resets to the default.
+   */
+  private pickFields(source: any, fields: string): any {
+    const picked: any = {};
+
+    for (const field of fields.split(',')) {
+      const path = field.split('.');
+      let from = source;
+      let to = picked;
+      path.slice(0, -1).forEach(key => {
+        from = from?.[key];
+        to = to[key] = to[key] || {};
+      });
+      to[path[path.length - 1]] = from?.[path[path.length - 1]];
+    }
+
+    return picked;
+  }
+
+  /**
+   * Whether two grid ranges on the same sheet share any cells. Missing bounds are unbounded.
+   */
+  private overlaps(a: GridRange, b: GridRange): boolean {
+    const before = (end?: number, start?: number) => end !== undefined && start !== undefined && end <= start;
+    return (a.sheetId ?? 0) === (b.sheetId ?? 0)
+      && !before(a.endRowIndex, b.startRowIndex) && !before(b.endRowIndex, a.startRowIndex)
+      && !before(a.endColumnIndex, b.startColumnIndex) && !before(b.endColumnIndex, a.startColumnIndex);
+  }
+
+  /**
+   * Restore the snapshots of applied batch steps, most recent first, in one call
+   */
+  private async rollbackBatch(spreadsheetId: string, snapshot: BatchSnapshot): Promise<boolean> {
+    const requests = this.buildRestoreRequests(snapshot);
+
+    try {
+      if (requests.length > 0) {
+        await this.sheets.spreadsheets.batchUpdate({
+          spreadsheetId,
+          requestBody: { requests },
+        });
+      }
+      return true;
+    } catch (error: any) {
+      this.log.error('Error rolling back batch', { error });
+      return false;
+    }
+  }
+
+  /**
+   * Pick a sheet id not used by any existing sheet
+   */
+  private nextSheetId(sheets: SheetInfo[]): number {
+    let sheetId: number;
+    do {
+      sheetId = Math.floor(Math.random() * 2147483646) + 1;
+    } while (sheets.some(sheet => sheet.id === sheetId));
+    return sheetId;
+  }
+
+  /**
+   * Grow a grid range to cover a block of values written from its top-left cell
+   */
+  private expandToValues(gridRange: GridRange, values: any[][]): GridRange {
+    const startRow = gridRange.startRowIndex ?? 0;
+    const startCol = gridRange.startColumnIndex ?? 0;
+    const width = Math.max(0, ...values.map(row => row.length));
+
+    return {
+      ...gridRange,
+      endRowIndex: Math.max(gridRange.endRowIndex ?? 0, startRow + values.length),
+      endColumnIndex: Math.max(gridRange.endColumnIndex ?? 0, startCol + width),
+    };
+  }
+
+  /**
+   * Snapshot a range before it is modified, if history is being kept
+   */
+  private async snapshotForHistory(
+    spreadsheetId: string,
+    range: string,
+    gridRange?: GridRange
+  ): Promise<Snapshot | undefined> {
+    if (!this.history) return undefined;
+
+    const resolved = gridRange || await this.resolveGridRange(spreadsheetId, range);
+    return this.captureRange(spreadsheetId, resolved);
+  }
+
+  /**
+   * Push a snapshot taken before a successful mutation onto the history
+   */
+  private recordHistory(
+    spreadsheetId: string,
+    operation: HistoryEntry['operation'],
+    target: string,
+    snapshot?: Snapshot
+  ): void {
+    if (!this.history || !snapshot) return;
+    this.history.record(spreadsheetId, { operation, target, snapshot });
+  }
+
+  /**
+   * Wrap the segments of a batch snapshot, unwrapping a batch of one step
+   */
+  private toHistorySnapshot(segments: Snapshot[][]): Snapshot {
+    return segments.length === 1 && segments[0].length === 1 ? segments[0][0] : { kind: 'batch', segments };
+  }
+
+  /**
+   * Capture the current state of whatever each snapshot of one batch segment describes,
+   * reading all their ranges in one call
+   */
+  private async captureSnapshots(spreadsheetId: string, snapshots: Snapshot[]): Promise<Snapshot[]> {
+    const ranges = snapshots.filter((snapshot): snapshot is RangeSnapshot => snapshot.kind === 'range');
+    const sheets = ranges.length > 0 ? await this.readSnapshotSheets(spreadsheetId, ranges.map(range => range.gridRange)) : [];
+    let spreadsheetInfo: SpreadsheetInfo | undefined;
+
+    const captured: Snapshot[] = [];
+    for (const snapshot of snapshots) {
+      switch (snapshot.kind) {
+        case 'range':
+          captured.push(this.toRangeSnapshot(snapshot.gridRange, sheets[ranges.indexOf(snapshot)]));
+          break;
+
+        // Undoing a structural change leaves things as they were before it, so redoing it is the change itself
+        case 'structure':
+          captured.push({ kind: 'structure', restore: snapshot.reapply, reapply: snapshot.restore });
+          break;
+
+        case 'sheet': {
+          spreadsheetInfo = spreadsheetInfo || await this.getSpreadsheetInfo(spreadsheetId);
+          const sheet = spreadsheetInfo.sheets.find(s => s.id === snapshot.sheetId);
+          captured.push({
+            kind: 'sheet',
+            sheetId: snapshot.sheetId,
+            title: sheet?.title || snapshot.title,
+            exists: !!sheet,
+          });
+          break;
+        }
+
+        case 'batch':
+          throw new Error('Batch snapshots are captured a segment at a time');
+      }
+    }
+    return captured;
+  }
+
+  /**
+   * Read the user-entered values and formats of a range
+   */
+  private async captureRange(spreadsheetId: string, gridRange: GridRange): Promise<RangeSnapshot> {
+    const rows = await this.readGridData(spreadsheetId, gridRange, SNAPSHOT_FIELDS);
+    return { kind: 'range', gridRange, rows };
+  }
+
+  /**
+   * Build a range snapshot from the Sheets API Sheet read for it
+   */
+  private toRangeSnapshot(gridRange: GridRange, sheet: any): RangeSnapshot {
+    return { kind: 'range', gridRange, rows: sheet?.data?.[0]?.rowData || [] };
+  }
+
+  /**
+   * Read what snapshots need from several grid ranges in one call: for each range, the
+   * Sheets API Sheet it lies on with its properties, merges and the range's cells
+   */
+  private async readSnapshotSheets(spreadsheetId: string, gridRanges: GridRange[]): Promise<any[]> {
+    const response = await this.sheets.spreadsheets.getByDataFilter({
+      spreadsheetId,
+      fields: `sheets(properties,merges,data(startRow,startColumn,rowData.values(${SNAPSHOT_FIELDS})))`,
+      requestBody: {
+        dataFilters: gridRanges.map(gridRange => ({ gridRange })),
+        includeGridData: true,
+      },
+    });
+
+    // Each range comes back as its own GridData on its sheet, in the order requested.
+    // Google leaves out start indexes of 0.
+    const sheets: any[] = response.data.sheets || [];
+    const used = new Set<any>();
+    return gridRanges.map(gridRange => {
+      const sheet = sheets.find(s => (s.properties?.sheetId ?? 0) === (gridRange.sheetId ?? 0)) || {};
+      const matching = (sheet.data || []).filter((data: any) =>
+        (data.startRow ?? 0) === (gridRange.startRowIndex ?? 0) && (data.startColumn ?? 0) === (gridRange.startColumnIndex ?? 0)
+      );
+      const data = matching.find((candidate: any) => !used.has(candidate)) || matching[0];
+      if (data) used.add(data);
+      return { ...sheet, data: data ? [data] : [] };
+    });
+  }
+
+  /**
+   * Read the requested cell fields of a grid range as Sheets API RowData
+   */
+  private async readGridData(spreadsheetId: string, gridRange: GridRange, cellFields: string): Promise<any[]> {
+    const sheet = await this.readSheet(spreadsheetId, gridRange, `data.rowData.values(${cellFields})`);
+    return sheet.data?.[0]?.rowData || [];
+  }
+
+  /**
+   * Read the requested fields of the Sheets API Sheet a grid range lies on, with its
+   * grid data limited to that range
+   */
+  private async readSheet(spreadsheetId: string, gridRange: GridRange, sheetFields: string): Promise<any> {
+    const response = await this.sheets.spreadsheets.getByDataFilter({
+      spreadsheetId,
+      fields: `sheets(${sheetFields})`,
+      requestBody: {
+        dataFilters: [{ gridRange }],
+        includeGridData: true,
+      },
+    });
+
+    return response.data.sheets?.[0] || {};
+  }
+
+  /**
+   * Put a range or sheet back into the state a snapshot describes
+   */
+  private async restoreSnapshot(spreadsheetId: string, snapshot: Snapshot): Promise<void> {
+    await this.sheets.spreadsheets.batchUpdate({
+      spreadsheetId,
+      requestBody: {
+        requests: this.buildRestoreRequests(snapshot),
+      },
+    });
+  }
+
+  /**
+   * Build the batchUpdate requests that put a snapshot back in place
+   */
+  private buildRestoreRequests(snapshot: Snapshot): any[] {
+    if (snapshot.kind === 'batch') {
+      return snapshot.segments.flat().flatMap(step => this.buildRestoreRequests(step));
+    }
+
+    if (snapshot.kind === 'range') {
+      return [this.buildRestoreCellsRequest(snapshot.gridRange, snapshot.rows)];
+    }
+
+    if (snapshot.kind === 'structure') {
+      return snapshot.restore;
+    }
+
+    if (snapshot.exists) {
+      return [{
+        addSheet: {
+          properties: { sheetId: snapshot.sheetId, title: snapshot.title },
+        },
+      }];
+    }
+
+    return [{
+      deleteSheet: { sheetId: snapshot.sheetId },
+    }];
+  }
+
+  /**
+   * Build an updateCells request writing captured rows back over a grid range
+   */
+  private buildRestoreCellsRequest(gridRange: GridRange, rows: any[]): any {
+    // Cells in the range not covered by rows are cleared, which restores empty cells too
+    return {
+      updateCells: {
+        range: gridRange,
+        rows,
+        fields: SNAPSHOT_FIELDS,
+      },
+    };
+  }
+
+  /**
+   * Resolve a range in any supported notation to a grid range
+   */
+  private async resolveGridRange(spreadsheetId: string, range: string): Promise<GridRange> {
+    const spreadsheetInfo = await this.getSpreadsheetInfo(spreadsheetId);
+    return resolveGridRange(range, spreadsheetInfo.sheets, spreadsheetInfo.namedRanges);
+  }
+
+  /**
+   * Build a repeatCell request applying formatting to a grid range
+   */
+  private buildFormatRequest(gridRange: GridRange, formatting: CellFormatting): any {
+    const format: any = {};
+    // Only the supplied properties go in the field mask, so everything else is left as it was
+    const fields: string[] = [];
+
+    if (formatting.backgroundColor !== undefined) {
+      format.backgroundColor = this.hexToRgb(formatting.backgroundColor);
+      fields.push('backgroundColor');
+    }
+
+    for (const [property, apiName] of TEXT_FORMAT_PROPERTIES) {
+      const value = formatting[property];
+      if (value === undefined) continue;
+
+      format.textFormat = format.textFormat || {};
+      format.textFormat[apiName] = property === 'textColor' ? this.hexToRgb(value as string) : value;
+      fields.push(`textFormat.${apiName}`);
+    }
+
+    for (const property of CELL_FORMAT_PROPERTIES) {
+      if (formatting[property] === undefined) continue;
+      format[property] = formatting[property];
+      fields.push(property);
+    }
+
+    if (formatting.numberFormat !== undefined) {
+      const { type, pattern } = formatting.numberFormat;
+      format.numberFormat = pattern ? { type, pattern } : { type };
+      fields.push('numberFormat');
+    }
+
+    if (formatting.textRotation !== undefined) {
+      format.textRotation = formatting.textRotation === 'vertical'
+        ? { vertical: true }
+        : { angle: formatting.textRotation };
+      fields.push('textRotation');
+    }
+
+    for (const side of BORDER_SIDES) {
+      const border = formatting.borders?.[side];
+      if (!border) continue;
+
+      format.borders = format.borders || {};
+      format.borders[side] = {
+        style: border.style,
+        ...(border.color ? { color: this.hexToRgb(border.color) } : {}),
+      };
+      fields.push(`borders.${side}`);
+    }
+
+    if (fields.length === 0) {
+      throw new InvalidOperationError('No formatting properties supplied');
+    }
+
+    return {
+      repeatCell: {
+        range: gridRange,
+        cell: {
+          userEnteredFormat: format,
+        },
+        fields: fields.map(field => `userEnteredFormat.${field}`).join(','),
+      },
+    };
+  }
+
+  /**
+   * Convert Google Sheets API RGB object to hex color
+   */
+  private rgbToHex(color: { red?: number; green?: number; blue?: number }): string {
+    const channel = (value?: number) => Math.round((value || 0) * 255).toString(16).padStart(2, '0');
+    return `#${channel(color.red)}${channel(color.green)}${channel(color.blue)}`.toUpperCase();
   }
 
   /**
@@ -276,7 +1772,7 @@ export class SheetsService {
   private hexToRgb(hex: string): { red: number; green: number; blue: number } {
     const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
     if (!result) {
-      throw new Error(`Invalid hex color: ${hex}`);
+      throw new InvalidOperationError(`Invalid hex color: ${hex}`);
     }
     
     return {
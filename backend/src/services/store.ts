@@ -0,0 +1,233 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { logger } from '../utils/logger';
+
+/**
+ * Anything kept in a record store: keyed by id and expired by inactivity
+ */
+export interface StoredRecord {
+  id: string;
+  lastActivity: Date;
+}
+
+/**
+ * Storage backend for one collection of records. Callers write a record back with set()
+ * after every change, so stores may hand out copies from get().
+ */
+export interface RecordStore<T extends StoredRecord> {
+  get(id: string): T | undefined;
+  set(record: T): void;
+  delete(id: string): boolean;
+  list(): T[];
+  /**
+   * Remove records with no activity since the cutoff and return their IDs
+   */
+  deleteInactiveSince(cutoff: Date): string[];
+  close(): void;
+}
+
+export type StorageBackend = 'memory' | 'file' | 'sqlite';
+
+export interface StorageConfig {
+  backend: StorageBackend;
+  path?: string; // Directory for the file backend, database file for SQLite
+}
+
+export interface CollectionOptions<T> {
+  name: string; // File or table name; letters, digits and underscores only
+  revive: (raw: any) => T; // Restore Date fields and defaults after parsing JSON
+}
+
+const DEFAULT_PATHS: Record<Exclude<StorageBackend, 'memory'>, string> = {
+  file: 'data',
+  sqlite: 'data/sheets-ide.db',
+};
+
+/**
+ * Keeps records in process memory; everything is lost on restart
+ */
+export class MemoryRecordStore<T extends StoredRecord> implements RecordStore<T> {
+  private records = new Map<string, T>();
+
+  get(id: string): T | undefined {
+    return this.records.get(id);
+  }
+
+  set(record: T): void {
+    this.records.set(record.id, record);
+  }
+
+  delete(id: string): boolean {
+    return this.records.delete(id);
+  }
+
+  list(): T[] {
+    return Array.from(this.records.values());
+  }
+
+  deleteInactiveSince(cutoff: Date): string[] {
+    const expired = this.list()
+      .filter(record => record.lastActivity.getTime() < cutoff.getTime())
+      .map(record => record.id);
+
+    for (const id of expired) {
+      this.records.delete(id);
+    }
+
+    return expired;
+  }
+
+  close(): void {}
+}
+
+/**
+ * Keeps records in memory and rewrites a JSON file on every change.
+ * Suited to single-instance deployments with modest record counts.
+ */
+export class FileRecordStore<T extends StoredRecord> implements RecordStore<T> {
+  private records = new Map<string, T>();
+
+  constructor(private filePath: string, private revive: (raw: any) => T) {
+    this.load();
+  }
+
+  get(id: string): T | undefined {
+    const record = this.records.get(id);
+    return record ? this.revive(JSON.parse(JSON.stringify(record))) : undefined;
+  }
+
+  set(record: T): void {
+    this.records.set(record.id, record);
+    this.save();
+  }
+
+  delete(id: string): boolean {
+    const deleted = this.records.delete(id);
+    if (deleted) this.save();
+    return deleted;
+  }
+
+  list(): T[] {
+    return Array.from(this.records.keys()).map(id => this.get(id)!);
+  }
+
+  deleteInactiveSince(cutoff: Date): string[] {
+    const expired = Array.from(this.records.values())
+      .filter(record => record.lastActivity.getTime() < cutoff.getTime())
+      .map(record => record.id);
+
+    if (expired.length > 0) {
+      for (const id of expired) {
+        this.records.delete(id);
+      }
+      this.save();
+    }
+
+    return expired;
+  }
+
+  close(): void {}
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) return;
+
+    const raw = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+    for (const record of raw.records || []) {
+      this.records.set(record.id, this.revive(record));
+    }
+
+    logger.info('Loaded records', { count: this.records.size, file: this.filePath });
+  }
+
+  /**
+   * Write to a temporary file first so a crash mid-write cannot truncate the store
+   */
+  private save(): void {
+    const tempPath = `${this.filePath}.tmp`;
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(tempPath, JSON.stringify({ records: Array.from(this.records.values()) }));
+    fs.renameSync(tempPath, this.filePath);
+  }
+}
+
+/**
+ * Stores each record as a JSON row in a table of an embedded SQLite database
+ */
+export class SqliteRecordStore<T extends StoredRecord> implements RecordStore<T> {
+  private db: Database.Database;
+
+  constructor(filePath: string, private table: string, private revive: (raw: any) => T) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+    this.db = new Database(filePath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS ${table} (
+        id TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        last_activity INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS ${table}_last_activity ON ${table} (last_activity);
+    `);
+  }
+
+  get(id: string): T | undefined {
+    const row = this.db.prepare(`SELECT data FROM ${this.table} WHERE id = ?`).get(id) as { data: string } | undefined;
+    return row ? this.revive(JSON.parse(row.data)) : undefined;
+  }
+
+  set(record: T): void {
+    this.db
+      .prepare(`
+        INSERT INTO ${this.table} (id, data, last_activity) VALUES (?, ?, ?)
+        ON CONFLICT (id) DO UPDATE SET data = excluded.data, last_activity = excluded.last_activity
+      `)
+      .run(record.id, JSON.stringify(record), record.lastActivity.getTime());
+  }
+
+  delete(id: string): boolean {
+    return this.db.prepare(`DELETE FROM ${this.table} WHERE id = ?`).run(id).changes > 0;
+  }
+
+  list(): T[] {
+    const rows = this.db.prepare(`SELECT data FROM ${this.table}`).all() as { data: string }[];
+    return rows.map(row => this.revive(JSON.parse(row.data)));
+  }
+
+  deleteInactiveSince(cutoff: Date): string[] {
+    const rows = this.db
+      .prepare(`DELETE FROM ${this.table} WHERE last_activity < ? RETURNING id`)
+      .all(cutoff.getTime()) as { id: string }[];
+    return rows.map(row => row.id);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+/**
+ * Build the store for one collection on the configured backend. Paths are relative to the working directory.
+ */
+export function createRecordStore<T extends StoredRecord>(
+  config: StorageConfig,
+  collection: CollectionOptions<T>
+): RecordStore<T> {
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(collection.name)) {
+    throw new Error(`Invalid collection name: ${collection.name}`);
+  }
+
+  switch (config.backend) {
+    case 'memory':
+      return new MemoryRecordStore<T>();
+    case 'file': {
+      const directory = path.resolve(config.path || DEFAULT_PATHS.file);
+      return new FileRecordStore<T>(path.join(directory, `${collection.name}.json`), collection.revive);
+    }
+    case 'sqlite':
+      return new SqliteRecordStore<T>(path.resolve(config.path || DEFAULT_PATHS.sqlite), collection.name, collection.revive);
+    default:
+      throw new Error(`Unsupported storage backend: ${config.backend}`);
+  }
+}
@@ -0,0 +1,36 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ToolCall } from '../types/shared';
+import { InvalidOperationError } from '../utils/errors';
+import { failedToolResult, serializeToolResult, toolCallToOperation } from './tools';
+
+test('tool calls become operations with the tool name mapped to its type', () => {
+  const operation = toolCallToOperation({
+    id: 'call_1',
+    name: 'set_formula',
+    arguments: { range: 'Sheet1!A11', formula: '=SUM(A1:A10)' },
+  });
+
+  assert.equal(operation.type, 'formula');
+  assert.equal(operation.range, 'Sheet1!A11');
+  assert.equal(operation.formula, '=SUM(A1:A10)');
+});
+
+test('invalid tool arguments are reported back with field details', () => {
+  const call: ToolCall = { id: 'call_1', name: 'insert_rows', arguments: { sheetName: 'Sheet1', startIndex: -1, count: 2 } };
+
+  let error: unknown;
+  assert.throws(() => toolCallToOperation(call), (thrown: unknown) => {
+    error = thrown;
+    return thrown instanceof InvalidOperationError;
+  });
+
+  const result = failedToolResult(call, error);
+  assert.equal(result.success, false);
+  assert.ok(result.details?.some(detail => detail.path === 'startIndex'));
+  assert.deepEqual(JSON.parse(serializeToolResult(result)).details, result.details);
+});
+
+test('unknown tools are rejected', () => {
+  assert.throws(() => toolCallToOperation({ id: 'call_1', name: 'drop_table', arguments: {} }), /Unknown tool: drop_table/);
+});
@@ -0,0 +1,379 @@
+import { SheetsService } from './sheets';
+import { operationSchema } from './validation';
+import { SheetsOperation, ToolCall, ToolResult } from '../types/shared';
+import { InvalidOperationError } from '../utils/errors';
+import { describeFieldErrors, validate } from '../utils/schema';
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, any>;
+}
+
+const rangeProperty = {
+  type: 'string',
+  description: "Range in A1 notation including the sheet name, e.g. 'Sheet1!A1:C10', 'Sheet1!B:B' or \"'Q1 Sales'!A2:D\", or a named range",
+};
+
+const borderProperty = {
+  type: 'object',
+  properties: {
+    style: {
+      type: 'string',
+      enum: ['NONE', 'DOTTED', 'DASHED', 'SOLID', 'SOLID_MEDIUM', 'SOLID_THICK', 'DOUBLE'],
+    },
+    color: { type: 'string', description: 'Hex color' },
+  },
+  required: ['style'],
+};
+
+const sheetNameProperty = {
+  type: 'string',
+  description: 'Title of the sheet (tab)',
+};
+
+function dimensionParameters(dimension: 'rows' | 'columns'): Record<string, any> {
+  return {
+    type: 'object',
+    properties: {
+      sheetName: sheetNameProperty,
+      startIndex: {
+        type: 'integer',
+        description: dimension === 'rows'
+          ? '0-based index of the first row (row 1 is 0)'
+          : '0-based index of the first column (column A is 0)',
+      },
+      count: { type: 'integer', description: `Number of ${dimension}` },
+    },
+    required: ['sheetName', 'startIndex', 'count'],
+  };
+}
+
+/**
+ * Tools exposed to the AI providers, one per SheetsOperation type
+ */
+export const SHEETS_TOOLS: ToolDefinition[] = [
+  {
+    name: 'read_range',
+    description: 'Read the values of a range in the current spreadsheet.',
+    parameters: {
+      type: 'object',
+      properties: {
+        range: rangeProperty,
+      },
+      required: ['range'],
+    },
+  },
+  {
+    name: 'write_range',
+    description: 'Write a 2D array of values to a range. Values are interpreted as if typed by the user.',
+    parameters: {
+      type: 'object',
+      properties: {
+        range: rangeProperty,
+        values: {
+          type: 'array',
+          description: 'Rows of cell values',
+          items: {
+            type: 'array',
+            // Single-typed for Gemini; values are parsed as if typed, so numbers and formulas still work
+            items: { type: 'string' },
+          },
+        },
+      },
+      required: ['range', 'values'],
+    },
+  },
+  {
+    name: 'create_sheet',
+    description: 'Create a new sheet (tab) in the current spreadsheet.',
+    parameters: {
+      type: 'object',
+      properties: {
+        sheetName: { type: 'string', description: 'Title of the new sheet' },
+      },
+      required: ['sheetName'],
+    },
+  },
+  {
+    name: 'set_formula',
+    description: 'Set a formula in a cell, e.g. =SUM(A1:A10).',
+    parameters: {
+      type: 'object',
+      properties: {
+        range: rangeProperty,
+        formula: { type: 'string', description: 'Formula starting with =' },
+      },
+      required: ['range', 'formula'],
+    },
+  },
+  {
+    name: 'format_cells',
+    description: 'Apply formatting to a range of cells.',
+    parameters: {
+      type: 'object',
+      properties: {
+        range: rangeProperty,
+        formatting: {
+          type: 'object',
+          description: 'Only the properties given are changed; all other formatting is kept',
+          properties: {
+            backgroundColor: { type: 'string', description: 'Hex color, e.g. #FFEEAA' },
+            textColor: { type: 'string', description: 'Hex color, e.g. #000000' },
+            fontSize: { type: 'number' },
+            fontFamily: { type: 'string', description: "e.g. 'Arial', 'Roboto Mono'" },
+            bold: { type: 'boolean' },
+            italic: { type: 'boolean' },
+            underline: { type: 'boolean' },
+            strikethrough: { type: 'boolean' },
+            horizontalAlignment: { type: 'string', enum: ['LEFT', 'CENTER', 'RIGHT'] },
+            verticalAlignment: { type: 'string', enum: ['TOP', 'MIDDLE', 'BOTTOM'] },
+            wrapStrategy: { type: 'string', enum: ['OVERFLOW_CELL', 'LEGACY_WRAP', 'CLIP', 'WRAP'] },
+            numberFormat: {
+              type: 'object',
+              properties: {
+                type: {
+                  type: 'string',
+                  enum: ['TEXT', 'NUMBER', 'PERCENT', 'CURRENCY', 'DATE', 'TIME', 'DATE_TIME', 'SCIENTIFIC'],
+                },
+                pattern: { type: 'string', description: "e.g. '#,##0.00', 'yyyy-mm-dd', '[$$]#,##0.00'" },
+              },
+              required: ['type'],
+            },
+            textRotation: { type: 'number', description: 'Angle in degrees from -90 to 90' },
+            borders: {
+              type: 'object',
+              description: 'Border applied to each side of every cell in the range',
+              properties: Object.fromEntries(['top', 'bottom', 'left', 'right'].map(side => [side, borderProperty])),
+            },
+          },
+        },
+      },
+      required: ['range', 'formatting'],
+    },
+  },
+  ...(['rows', 'columns'] as const).flatMap(dimension => [
+    {
+      name: `insert_${dimension}`,
+      description: `Insert empty ${dimension} into a sheet.`,
+      parameters: dimensionParameters(dimension),
+    },
+    {
+      name: `delete_${dimension}`,
+      description: `Delete ${dimension} from a sheet, shifting the remaining ${dimension} up or left.`,
+      parameters: dimensionParameters(dimension),
+    },
+  ]),
+  {
+    name: 'sort_range',
+    description: 'Sort the rows of a range by one or more columns. Exclude the header row from the range.',
+    parameters: {
+      type: 'object',
+      properties: {
+        range: rangeProperty,
+        sortSpecs: {
+          type: 'array',
+          description: 'Sort keys in priority order',
+          items: {
+            type: 'object',
+            properties: {
+              column: { type: 'string', description: "Column letter, e.g. 'B'" },
+              ascending: { type: 'boolean', description: 'Defaults to true' },
+            },
+            required: ['column'],
+          },
+        },
+      },
+      required: ['range', 'sortSpecs'],
+    },
+  },
+  {
+    name: 'merge_cells',
+    description: 'Merge the cells of a range.',
+    parameters: {
+      type: 'object',
+      properties: {
+        range: rangeProperty,
+        mergeType: {
+          type: 'string',
+          enum: ['MERGE_ALL', 'MERGE_COLUMNS', 'MERGE_ROWS'],
+          description: 'Defaults to MERGE_ALL',
+        },
+      },
+      required: ['range'],
+    },
+  },
+  {
+    name: 'unmerge_cells',
+    description: 'Unmerge any merged cells within a range.',
+    parameters: {
+      type: 'object',
+      properties: {
+        range: rangeProperty,
+      },
+      required: ['range'],
+    },
+  },
+  {
+    name: 'rename_sheet',
+    description: 'Rename a sheet.',
+    parameters: {
+      type: 'object',
+      properties: {
+        sheetName: sheetNameProperty,
+        newName: { type: 'string', description: 'New title for the sheet' },
+      },
+      required: ['sheetName', 'newName'],
+    },
+  },
+  {
+    name: 'delete_sheet',
+    description: 'Delete a sheet and all of its data.',
+    parameters: {
+      type: 'object',
+      properties: {
+        sheetName: sheetNameProperty,
+      },
+      required: ['sheetName'],
+    },
+  },
+  {
+    name: 'duplicate_sheet',
+    description: 'Copy a sheet within the spreadsheet.',
+    parameters: {
+      type: 'object',
+      properties: {
+        sheetName: sheetNameProperty,
+        newName: { type: 'string', description: 'Title for the copy' },
+        newIndex: { type: 'integer', description: '0-based tab position for the copy' },
+      },
+      required: ['sheetName'],
+    },
+  },
+  {
+    name: 'hide_sheet',
+    description: 'Hide or unhide a sheet.',
+    parameters: {
+      type: 'object',
+      properties: {
+        sheetName: sheetNameProperty,
+        hidden: { type: 'boolean', description: 'false to unhide. Defaults to true' },
+      },
+      required: ['sheetName'],
+    },
+  },
+  {
+    name: 'move_sheet',
+    description: 'Move a sheet to a new position in the tab order.',
+    parameters: {
+      type: 'object',
+      properties: {
+        sheetName: sheetNameProperty,
+        newIndex: { type: 'integer', description: '0-based tab position' },
+      },
+      required: ['sheetName', 'newIndex'],
+    },
+  },
+  {
+    name: 'freeze_panes',
+    description: 'Freeze the leading rows and/or columns of a sheet. Use 0 to unfreeze.',
+    parameters: {
+      type: 'object',
+      properties: {
+        sheetName: sheetNameProperty,
+        frozenRows: { type: 'integer' },
+        frozenColumns: { type: 'integer' },
+      },
+      required: ['sheetName'],
+    },
+  },
+];
+
+const TOOL_OPERATION_TYPES: Record<string, SheetsOperation['type']> = {
+  read_range: 'read',
+  write_range: 'write',
+  create_sheet: 'create',
+  set_formula: 'formula',
+  format_cells: 'format',
+  insert_rows: 'insertRows',
+  delete_rows: 'deleteRows',
+  insert_columns: 'insertColumns',
+  delete_columns: 'deleteColumns',
+  sort_range: 'sort',
+  merge_cells: 'merge',
+  unmerge_cells: 'unmerge',
+  rename_sheet: 'renameSheet',
+  delete_sheet: 'deleteSheet',
+  duplicate_sheet: 'duplicateSheet',
+  hide_sheet: 'hideSheet',
+  move_sheet: 'moveSheet',
+  freeze_panes: 'freeze',
+};
+
+/**
+ * Convert a tool call from the model into a SheetsOperation. The arguments are checked
+ * with the schema the API routes use, so bad ones go back to the model straight away
+ * rather than failing once the change is approved.
+ */
+export function toolCallToOperation(call: ToolCall): SheetsOperation {
+  const type = TOOL_OPERATION_TYPES[call.name];
+  if (!type) {
+    throw new InvalidOperationError(`Unknown tool: ${call.name}`);
+  }
+
+  const checked = validate(operationSchema, { ...call.arguments, type });
+  if (checked.errors) {
+    throw new InvalidOperationError(`Invalid arguments for ${call.name}: ${describeFieldErrors(checked.errors)}`, checked.errors);
+  }
+  return checked.value;
+}
+
+/**
+ * The result reporting a tool call that failed, with any invalid arguments
+ */
+export function failedToolResult(call: ToolCall, error: any): ToolResult {
+  return {
+    toolCallId: call.id,
+    name: call.name,
+    success: false,
+    error: error.message || 'Tool execution failed',
+    details: error instanceof InvalidOperationError ? error.details : undefined,
+  };
+}
+
+/**
+ * Whether an operation only reads from the spreadsheet and can run without approval
+ */
+export function isReadOnlyOperation(operation: SheetsOperation): boolean {
+  return operation.type === 'read';
+}
+
+/**
+ * Run a tool call against the spreadsheet and capture the outcome
+ */
+export async function executeToolCall(
+  sheetsService: SheetsService,
+  spreadsheetId: string,
+  call: ToolCall
+): Promise<ToolResult> {
+  try {
+    const operation = toolCallToOperation(call);
+    const result = await sheetsService.executeOperation(spreadsheetId, operation);
+
+    return {
+      toolCallId: call.id,
+      name: call.name,
+      success: true,
+      result: result ?? { updated: true },
+    };
+  } catch (error: any) {
+    return failedToolResult(call, error);
+  }
+}
+
+/**
+ * Serialize a tool result for sending back to the model
+ */
+export function serializeToolResult(result: ToolResult): string {
+  return JSON.stringify(result.success ? result.result : { error: result.error, details: result.details });
+}
@@ -0,0 +1,68 @@
+import { TokenUsage, UsageSummary, UsageTotals } from '../types/shared';
+import { MemoryRecordStore, RecordStore } from './store';
+
+/**
+ * Running totals for one user; the id is the user's Google id. Kept apart from sessions
+ * so totals survive session expiry.
+ */
+export interface UserUsage {
+  id: string;
+  total: UsageTotals;
+  byProvider: Record<string, UsageTotals>;
+  lastActivity: Date;
+}
+
+export type UsageStore = RecordStore<UserUsage>;
+
+export class UsageService {
+  constructor(private store: UsageStore = new MemoryRecordStore<UserUsage>()) {}
+
+  /**
+   * Add one AI response to a user's totals
+   */
+  record(userId: string, provider: string, usage: TokenUsage, cost: number): void {
+    const record = this.store.get(userId) || { id: userId, total: emptyTotals(), byProvider: {}, lastActivity: new Date() };
+
+    record.total = addUsage(record.total, usage, cost);
+    record.byProvider[provider] = addUsage(record.byProvider[provider] || emptyTotals(), usage, cost);
+    record.lastActivity = new Date();
+    this.store.set(record);
+  }
+
+  /**
+   * A user's totals overall and per provider
+   */
+  getSummary(userId: string): UsageSummary {
+    const record = this.store.get(userId);
+    return {
+      total: record?.total || emptyTotals(),
+      byProvider: record?.byProvider || {},
+    };
+  }
+}
+
+export function emptyTotals(): UsageTotals {
+  return { requests: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+}
+
+/**
+ * Totals with one more response added
+ */
+export function addUsage(totals: UsageTotals, usage: TokenUsage, cost: number): UsageTotals {
+  return {
+    requests: totals.requests + 1,
+    inputTokens: totals.inputTokens + usage.inputTokens,
+    outputTokens: totals.outputTokens + usage.outputTokens,
+    cost: totals.cost + cost,
+  };
+}
+
+/**
+ * Restore the Date fields of a user's usage parsed from JSON
+ */
+export function reviveUserUsage(raw: any): UserUsage {
+  return {
+    ...raw,
+    lastActivity: new Date(raw.lastActivity),
+  };
+}
@@ -0,0 +1,76 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Request, Response } from 'express';
+import { validate } from '../utils/schema';
+import { schemas, validateRequest } from './validation';
+
+function run(middleware: ReturnType<typeof validateRequest>, req: Partial<Request>) {
+  const sent: { status?: number; body?: any; next: boolean } = { next: false };
+  const res = {
+    status(code: number) {
+      sent.status = code;
+      return this;
+    },
+    json(body: any) {
+      sent.body = body;
+      return this;
+    },
+  } as unknown as Response;
+
+  middleware(req as Request, res, () => {
+    sent.next = true;
+  });
+  return sent;
+}
+
+test('valid requests continue with the checked values in place of the originals', () => {
+  const req: Partial<Request> = {
+    params: { id: 'abc_123-XYZ' },
+    body: { operation: { type: 'write', range: 'A1', values: [[1, 'two']], unexpected: true } },
+  };
+  const sent = run(validateRequest({ params: schemas.spreadsheetParams, body: schemas.operation }), req);
+
+  assert.equal(sent.next, true);
+  assert.deepEqual(req.body, { operation: { type: 'write', range: 'A1', values: [[1, 'two']] } });
+});
+
+test('invalid requests get a 400 listing every field, prefixed with where it came from', () => {
+  const sent = run(validateRequest({ params: schemas.spreadsheetParams, body: schemas.chat }), {
+    params: { id: 'not/an/id' },
+    body: { message: '', sessionId: 'session_1', spreadsheetId: 'abc', temperature: -1 },
+  });
+
+  assert.equal(sent.next, false);
+  assert.equal(sent.status, 400);
+  assert.equal(sent.body.code, 'VALIDATION_FAILED');
+  assert.deepEqual(sent.body.details, [
+    { path: 'params.id', message: 'Must be a Google spreadsheet id' },
+    { path: 'message', message: 'Must not be empty' },
+    { path: 'temperature', message: 'Must be at least 0' },
+  ]);
+  assert.match(sent.body.error, /^Invalid request: params\.id must be a Google spreadsheet id; message must not be empty/);
+});
+
+test('operations check field types but leave required fields to SheetsService', () => {
+  assert.deepEqual(validate(schemas.operation, { operation: { type: 'insertRows', sheetName: 'Sheet1' } }).value, {
+    operation: { type: 'insertRows', sheetName: 'Sheet1' },
+  });
+
+  assert.deepEqual(validate(schemas.batch, {
+    operations: [
+      { type: 'format', range: 'A1', formatting: { backgroundColor: 'red', fontSize: 12 } },
+      { type: 'explode' },
+    ],
+  }).errors?.map(error => error.path), ['operations[0].formatting.backgroundColor', 'operations[1].type']);
+
+  assert.deepEqual(validate(schemas.batch, { operations: [] }).errors, [{ path: 'operations', message: 'Must not be empty' }]);
+});
+
+test('edits to a proposed operation may leave out any field', () => {
+  assert.deepEqual(validate(schemas.updatePendingOperation, { operation: { range: 'B2' } }).value, {
+    operation: { range: 'B2' },
+  });
+  assert.deepEqual(validate(schemas.updatePendingOperation, { operation: { count: 0 } }).errors, [
+    { path: 'operation.count', message: 'Must be at least 1' },
+  ]);
+});
@@ -0,0 +1,241 @@
+import { NextFunction, Request, Response } from 'express';
+import {
+  ApprovePendingOperationRequest,
+  AuthCallbackRequest,
+  AuthUrlQuery,
+  BatchRequest,
+  BorderStyle,
+  CellBorders,
+  CellFormatting,
+  ChatRequest,
+  CreateSessionRequest,
+  FieldError,
+  ModelRef,
+  ModelsQuery,
+  NumberFormat,
+  OperationRequest,
+  RejectPendingOperationRequest,
+  SaveApiKeyRequest,
+  SheetsOperation,
+  SortSpec,
+  TestApiKeyRequest,
+  UpdatePendingOperationRequest,
+} from '../types/shared';
+import { sendError } from '../utils/response';
+import {
+  ObjectShape,
+  Schema,
+  array,
+  boolean,
+  number,
+  object,
+  oneOf,
+  optional,
+  describeFieldErrors,
+  partial,
+  string,
+  union,
+  unknown,
+  validate,
+} from '../utils/schema';
+
+// Listed as keys so adding an operation type to SheetsOperation fails to compile until it is added here
+const OPERATION_TYPES: Record<SheetsOperation['type'], true> = {
+  read: true,
+  write: true,
+  create: true,
+  format: true,
+  formula: true,
+  insertRows: true,
+  deleteRows: true,
+  insertColumns: true,
+  deleteColumns: true,
+  sort: true,
+  merge: true,
+  unmerge: true,
+  renameSheet: true,
+  deleteSheet: true,
+  duplicateSheet: true,
+  hideSheet: true,
+  moveSheet: true,
+  freeze: true,
+};
+
+const nonEmpty = () => string({ minLength: 1 });
+const index = () => number({ integer: true, min: 0 });
+
+// Google spreadsheet ids are URL-safe base64
+const spreadsheetId = () => string({ pattern: /^[A-Za-z0-9_-]+$/, patternMessage: 'Must be a Google spreadsheet id' });
+const color = () => string({ pattern: /^#?[0-9a-f]{6}$/i, patternMessage: 'Must be a hex color such as #1A73E8' });
+
+const borderStyle = object<BorderStyle>({
+  style: oneOf(['NONE', 'DOTTED', 'DASHED', 'SOLID', 'SOLID_MEDIUM', 'SOLID_THICK', 'DOUBLE']),
+  color: optional(color()),
+});
+
+const formattingSchema = object<CellFormatting>({
+  backgroundColor: optional(color()),
+  textColor: optional(color()),
+  fontSize: optional(number({ min: 1, max: 400 })),
+  fontFamily: optional(nonEmpty()),
+  bold: optional(boolean()),
+  italic: optional(boolean()),
+  underline: optional(boolean()),
+  strikethrough: optional(boolean()),
+  horizontalAlignment: optional(oneOf(['LEFT', 'CENTER', 'RIGHT'])),
+  verticalAlignment: optional(oneOf(['TOP', 'MIDDLE', 'BOTTOM'])),
+  wrapStrategy: optional(oneOf(['OVERFLOW_CELL', 'LEGACY_WRAP', 'CLIP', 'WRAP'])),
+  numberFormat: optional(object<NumberFormat>({
+    type: oneOf(['TEXT', 'NUMBER', 'PERCENT', 'CURRENCY', 'DATE', 'TIME', 'DATE_TIME', 'SCIENTIFIC']),
+    pattern: optional(string()),
+  })),
+  textRotation: optional(union(number({ min: -90, max: 90 }), oneOf(['vertical']))),
+  borders: optional(object<CellBorders>({
+    top: optional(borderStyle),
+    bottom: optional(borderStyle),
+    left: optional(borderStyle),
+    right: optional(borderStyle),
+  })),
+});
+
+// Field types only; which fields each operation type needs is checked by SheetsService
+const operationShape: ObjectShape<SheetsOperation> = {
+  type: oneOf(Object.keys(OPERATION_TYPES) as Array<SheetsOperation['type']>),
+  range: optional(nonEmpty()),
+  values: optional(array(array(unknown()))),
+  sheetName: optional(nonEmpty()),
+  formula: optional(nonEmpty()),
+  formatting: optional(formattingSchema),
+  startIndex: optional(index()),
+  count: optional(number({ integer: true, min: 1 })),
+  sortSpecs: optional(array(object<SortSpec>({
+    column: string({ pattern: /^[A-Z]+$/i, patternMessage: 'Must be a column letter such as B' }),
+    ascending: optional(boolean()),
+  }))),
+  mergeType: optional(oneOf(['MERGE_ALL', 'MERGE_COLUMNS', 'MERGE_ROWS'])),
+  newName: optional(nonEmpty()),
+  newIndex: optional(index()),
+  hidden: optional(boolean()),
+  frozenRows: optional(index()),
+  frozenColumns: optional(index()),
+};
+
+export const operationSchema = object<SheetsOperation>(operationShape);
+
+// Edits to a proposed operation; its type is fixed once proposed
+const operationChangesSchema = partial<SheetsOperation>(operationShape);
+
+export const schemas = {
+  authUrlQuery: object<AuthUrlQuery>({
+    state: optional(string({ maxLength: 512 })),
+  }),
+
+  authCallback: object<AuthCallbackRequest>({
+    code: nonEmpty(),
+  }),
+
+  createSession: object<CreateSessionRequest>({
+    spreadsheetId: optional(spreadsheetId()),
+  }),
+
+  sessionModel: object<ModelRef>({
+    provider: nonEmpty(),
+    model: nonEmpty(),
+  }),
+
+  updatePendingOperation: object<UpdatePendingOperationRequest>({
+    operation: operationChangesSchema,
+  }),
+
+  approvePendingOperation: object<ApprovePendingOperationRequest>({
+    operation: optional(operationChangesSchema),
+  }),
+
+  rejectPendingOperation: object<RejectPendingOperationRequest>({
+    reason: optional(string({ maxLength: 1000 })),
+  }),
+
+  saveApiKey: object<SaveApiKeyRequest>({
+    apiKey: string({ trim: true, minLength: 1 }),
+    test: optional(boolean()),
+  }),
+
+  testApiKey: object<TestApiKeyRequest>({
+    apiKey: optional(string({ trim: true, minLength: 1 })),
+  }),
+
+  chat: object<ChatRequest>({
+    message: string({ minLength: 1 }),
+    sessionId: nonEmpty(),
+    spreadsheetId: spreadsheetId(),
+    aiProvider: optional(nonEmpty()),
+    aiApiKey: optional(string({ trim: true, minLength: 1 })),
+    model: optional(nonEmpty()),
+    temperature: optional(number({ min: 0 })),
+    maxTokens: optional(number({ integer: true, min: 1 })),
+    stopSequences: optional(array(nonEmpty())),
+  }),
+
+  spreadsheetParams: object<{ id: string }>({
+    id: spreadsheetId(),
+  }),
+
+  operation: object<OperationRequest>({
+    operation: operationSchema,
+    dryRun: optional(boolean()),
+  }),
+
+  batch: object<BatchRequest>({
+    operations: array(operationSchema, { minItems: 1 }),
+    atomic: optional(boolean()),
+  }),
+
+  modelsQuery: object<ModelsQuery>({
+    provider: optional(nonEmpty()),
+  }),
+};
+
+export interface RequestSchemas {
+  params?: Schema<unknown>;
+  query?: Schema<unknown>;
+  body?: Schema<unknown>;
+}
+
+/**
+ * Middleware checking a request against its schemas. Failures get a 400 listing every
+ * problem field; otherwise the checked values, without unknown fields, replace the originals.
+ */
+export function validateRequest(requestSchemas: RequestSchemas) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const details: FieldError[] = [];
+
+    for (const part of ['params', 'query', 'body'] as const) {
+      const schema = requestSchemas[part];
+      if (!schema) continue;
+
+      const result = validate(schema, req[part]);
+      if (result.errors) {
+        // Body paths are reported as-is; the rest say where they came from
+        details.push(...result.errors.map(error => ({
+          ...error,
+          path: part === 'body' ? error.path || 'body' : [part, error.path].filter(Boolean).join('.'),
+        })));
+      } else {
+        replaceRequestPart(req, part, result.value as Request[typeof part]);
+      }
+    }
+
+    if (details.length > 0) {
+      return sendError(res, 400, 'VALIDATION_FAILED', `Invalid request: ${describeFieldErrors(details)}`, { details });
+    }
+    next();
+  };
+}
+
+/**
+ * Replace one part of a request with its checked value. Schemas produce the same plain
+ * objects Express parses these parts into.
+ */
+function replaceRequestPart<K extends keyof RequestSchemas>(req: Request, part: K, value: Request[K]): void {
+  req[part] = value;
+}
@@ -0,0 +1,39 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AuthService } from './auth';
+import { MemoryRecordStore } from './store';
+import { TokenVault, VaultEntry } from './vault';
+import { deriveEncryptionKey, hashToken } from '../utils/crypto';
+
+const user = { id: 'google_1', email: 'alice@example.com' };
+const authService = new AuthService({ clientId: 'client', clientSecret: 'secret', redirectUri: 'http://localhost/callback' });
+
+test('tokens are encrypted at rest under a hash of the session token', async () => {
+  const store = new MemoryRecordStore<VaultEntry>();
+  const vault = new TokenVault(authService, deriveEncryptionKey('vault secret'), store);
+  const sessionToken = vault.create(user, { accessToken: 'ya29.access', refreshToken: '1//refresh', expiryDate: Date.now() + 3600_000 });
+
+  const [entry] = store.list();
+  assert.equal(entry.id, hashToken(sessionToken));
+  assert.ok(!JSON.stringify(entry).includes('ya29.access'));
+  assert.ok(!JSON.stringify(entry).includes('1//refresh'));
+
+  const credentials = await vault.getCredentials(sessionToken);
+  assert.equal(credentials?.accessToken, 'ya29.access');
+  assert.deepEqual(credentials?.user, user);
+  assert.equal(await vault.getCredentials('unknown'), null);
+});
+
+test('a tampered entry or a different key cannot be decrypted', async () => {
+  const store = new MemoryRecordStore<VaultEntry>();
+  const vault = new TokenVault(authService, deriveEncryptionKey('vault secret'), store);
+  const sessionToken = vault.create(user, { accessToken: 'ya29.access' });
+
+  const otherKey = new TokenVault(authService, deriveEncryptionKey('another secret'), store);
+  await assert.rejects(otherKey.getCredentials(sessionToken));
+
+  const [entry] = store.list();
+  const [version, iv, tag] = entry.accessToken.split(':');
+  store.set({ ...entry, accessToken: [version, iv, tag, Buffer.from('ya29.forged').toString('base64')].join(':') });
+  await assert.rejects(vault.getCredentials(sessionToken));
+});
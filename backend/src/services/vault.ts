@@ -0,0 +1,197 @@
+import { AuthService, TokenInfo, UserIdentity } from './auth';
+import { MemoryRecordStore, RecordStore } from './store';
+import { decrypt, encrypt, generateToken, hashToken } from '../utils/crypto';
+import { logger } from '../utils/logger';
+import { UnauthenticatedError } from '../utils/errors';
+
+/**
+ * Google credentials behind one signed-in browser. Tokens are encrypted at rest and the
+ * id is a hash of the cookie value, so the store alone cannot be used to sign in.
+ */
+export interface VaultEntry {
+  id: string;
+  user: UserIdentity;
+  accessToken: string; // Encrypted
+  refreshToken?: string; // Encrypted
+  expiryDate?: number;
+  scope?: string;
+  createdAt: Date;
+  lastActivity: Date;
+}
+
+export type VaultStore = RecordStore<VaultEntry>;
+
+/**
+ * A usable access token and the user it belongs to
+ */
+export interface VaultCredentials {
+  user: UserIdentity;
+  accessToken: string;
+  expiryDate?: number;
+}
+
+export class TokenVault {
+  private refreshes = new Map<string, Promise<VaultEntry | null>>();
+  private readonly SESSION_TIMEOUT = 30 * 24 * 60 * 60 * 1000; // 30 days
+  private readonly REFRESH_MARGIN = 60 * 1000; // Refresh a minute early so tokens do not expire mid-request
+
+  constructor(
+    private authService: AuthService,
+    private encryptionKey: Buffer,
+    private store: VaultStore = new MemoryRecordStore<VaultEntry>()
+  ) {}
+
+  /**
+   * Store a user's tokens and return the opaque session token to hand to the browser
+   */
+  create(user: UserIdentity, tokens: TokenInfo): string {
+    const sessionToken = generateToken();
+    const now = new Date();
+
+    this.store.set({
+      id: hashToken(sessionToken),
+      user,
+      accessToken: encrypt(tokens.accessToken, this.encryptionKey),
+      refreshToken: tokens.refreshToken ? encrypt(tokens.refreshToken, this.encryptionKey) : undefined,
+      expiryDate: tokens.expiryDate,
+      scope: tokens.scope,
+      createdAt: now,
+      lastActivity: now,
+    });
+
+    logger.info('Created app session', { userId: user.id });
+    return sessionToken;
+  }
+
+  /**
+   * Get a valid access token for a session, refreshing it first if it has expired.
+   * Returns null when the session is unknown or can no longer be refreshed.
+   */
+  async getCredentials(sessionToken: string): Promise<VaultCredentials | null> {
+    let entry = this.store.get(hashToken(sessionToken)) || null;
+    if (!entry) return null;
+
+    if (entry.expiryDate && this.authService.isTokenExpired(entry.expiryDate - this.REFRESH_MARGIN)) {
+      entry = await this.refreshEntry(entry);
+      if (!entry) return null;
+    }
+
+    entry.lastActivity = new Date();
+    this.store.set(entry);
+
+    return this.toCredentials(entry);
+  }
+
+  /**
+   * Refresh a session's access token now, regardless of its expiry
+   */
+  async refresh(sessionToken: string): Promise<VaultCredentials | null> {
+    const entry = this.store.get(hashToken(sessionToken));
+    if (!entry) return null;
+
+    const refreshed = await this.refreshEntry(entry);
+    return refreshed ? this.toCredentials(refreshed) : null;
+  }
+
+  /**
+   * Revoke a session's Google grant and remove it from the vault
+   */
+  async revoke(sessionToken: string): Promise<boolean> {
+    const id = hashToken(sessionToken);
+    const entry = this.store.get(id);
+    if (!entry) return false;
+
+    try {
+      // Revoking the refresh token also invalidates access tokens issued from it
+      await this.authService.revokeToken(decrypt(entry.refreshToken || entry.accessToken, this.encryptionKey));
+    } catch (error: any) {
+      logger.warn('Could not revoke Google token', { userId: entry.user.id, error: error.message });
+    } finally {
+      this.store.delete(id);
+    }
+
+    logger.info('Revoked app session', { userId: entry.user.id });
+    return true;
+  }
+
+  /**
+   * Start periodic cleanup of sessions that have not been used for a long time
+   */
+  startCleanupTimer(): void {
+    this.cleanupExpiredSessions();
+
+    setInterval(() => {
+      this.cleanupExpiredSessions();
+    }, 60 * 60 * 1000);
+  }
+
+  /**
+   * Swap in a fresh access token. Concurrent requests for the same session share one refresh.
+   */
+  private refreshEntry(entry: VaultEntry): Promise<VaultEntry | null> {
+    const inFlight = this.refreshes.get(entry.id);
+    if (inFlight) return inFlight;
+
+    const encryptedRefreshToken = entry.refreshToken;
+    if (!encryptedRefreshToken) {
+      this.store.delete(entry.id);
+      return Promise.resolve(null);
+    }
+
+    const refresh = (async () => {
+      try {
+        const tokens = await this.authService.refreshAccessToken(decrypt(encryptedRefreshToken, this.encryptionKey));
+        const refreshed: VaultEntry = {
+          ...entry,
+          accessToken: encrypt(tokens.accessToken, this.encryptionKey),
+          refreshToken: tokens.refreshToken ? encrypt(tokens.refreshToken, this.encryptionKey) : encryptedRefreshToken,
+          expiryDate: tokens.expiryDate,
+          scope: tokens.scope || entry.scope,
+          lastActivity: new Date(),
+        };
+
+        this.store.set(refreshed);
+        return refreshed;
+      } catch (error: any) {
+        // The user revoked access or the grant expired; they have to sign in again
+        if (error instanceof UnauthenticatedError) {
+          this.store.delete(entry.id);
+          return null;
+        }
+        throw error;
+      } finally {
+        this.refreshes.delete(entry.id);
+      }
+    })();
+
+    this.refreshes.set(entry.id, refresh);
+    return refresh;
+  }
+
+  private toCredentials(entry: VaultEntry): VaultCredentials {
+    return {
+      user: entry.user,
+      accessToken: decrypt(entry.accessToken, this.encryptionKey),
+      expiryDate: entry.expiryDate,
+    };
+  }
+
+  private cleanupExpiredSessions(): void {
+    const expired = this.store.deleteInactiveSince(new Date(Date.now() - this.SESSION_TIMEOUT));
+
+    if (expired.length > 0) {
+      logger.info('Cleaned up expired app sessions', { count: expired.length });
+    }
+  }
+}
+
+/**
+ * Restore the Date fields of a vault entry parsed from JSON
+ */
+export function reviveVaultEntry(raw: any): VaultEntry {
+  return {
+    ...raw,
+    createdAt: new Date(raw.createdAt),
+    lastActivity: new Date(raw.lastActivity),
+  };
+}
@@ -5,13 +5,85 @@ export interface ChatMessage {
   content: string;
   timestamp: Date;
   spreadsheetId?: string;
+  interrupted?: boolean; // Generation was cancelled; content is what arrived before that
+  provider?: string; // On assistant messages: who answered, what it used and its estimated USD cost
+  model?: string;
+  usage?: TokenUsage;
+  cost?: number;
 }
 
-export interface ChatRequest {
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  estimated?: boolean; // Counted locally because the provider did not report usage
+}
+
+// Token and cost totals over any number of AI responses
+export interface UsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number; // Estimated USD
+}
+
+export interface UsageSummary {
+  total: UsageTotals;
+  byProvider: Record<string, UsageTotals>;
+}
+
+export interface StatsInfo {
+  sessions: {
+    total: number; // Across all users
+    totalMessages: number;
+    user: number; // The caller's own
+  };
+  usage: UsageSummary; // The caller's usage since they started, including expired sessions
+  sessionUsage: Array<{ id: string; title: string; usage: UsageTotals }>;
+}
+
+export interface ChatRequest extends GenerationOptions {
   message: string;
-  apiKey: string;
+  sessionId: string;
   spreadsheetId: string;
-  conversationHistory?: ChatMessage[];
+  aiProvider?: string; // Defaults to the session's pinned provider, then anthropic
+  aiApiKey?: string; // Used instead of a saved or server key
+}
+
+// Per-request model choice and sampling parameters; omitted values use the provider's defaults
+export interface GenerationOptions {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  stopSequences?: string[];
+}
+
+export interface ModelInfo {
+  id: string;
+  provider: string;
+  name: string;
+  contextWindow: number; // Tokens
+  maxOutputTokens: number;
+  maxTemperature: number;
+  capabilities: ModelCapabilities;
+  pricing?: ModelPricing; // Unset for models that cost nothing per token, e.g. self-hosted
+}
+
+// USD per million tokens
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+export interface ModelCapabilities {
+  tools: boolean;
+  vision: boolean;
+  streaming: boolean;
+}
+
+// A provider and one of its models, e.g. a session's pinned default
+export interface ModelRef {
+  provider: string;
+  model: string;
 }
 
 export interface ChatResponse {
@@ -21,21 +93,78 @@ export interface ChatResponse {
   spreadsheetId?: string;
 }
 
+export interface SessionInfo {
+  id: string;
+  title: string; // Taken from the first user message
+  spreadsheetId?: string;
+  defaultModel?: ModelRef;
+  messageCount: number;
+  usage?: UsageTotals;
+  createdAt: Date;
+  lastActivity: Date;
+}
+
+export interface ApiKeyInfo {
+  provider: string;
+  maskedKey: string; // Only the last four characters are shown
+  createdAt: Date;
+  updatedAt: Date;
+  lastTestedAt?: Date;
+  lastTestValid?: boolean;
+}
+
 export interface StreamingChatChunk {
-  type: 'text' | 'complete' | 'error';
+  type: 'text' | 'tool_call' | 'tool_result' | 'pending_operation' | 'failover' | 'complete' | 'cancelled' | 'error';
   content?: string;
   response?: string;
   spreadsheetId?: string;
   error?: string;
+  retryable?: boolean; // Set on errors that may succeed if tried again
+  toolCall?: ToolCall;
+  toolResult?: ToolResult;
+  pendingOperation?: PendingOperation;
+  failover?: FailoverEvent;
+  provider?: string; // On complete: the provider and model that answered
+  model?: string;
+  usage?: TokenUsage; // On complete: tokens used by the whole turn, including tool round trips
+  cost?: number;
+}
+
+// Sent when a provider fails before answering and the next one in the failover list takes over
+export interface FailoverEvent {
+  from: ModelRef;
+  to: ModelRef;
+  reason: string;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, any>;
+}
+
+export interface ToolResult {
+  toolCallId: string;
+  name: string;
+  success: boolean;
+  result?: any;
+  error?: string;
+  details?: FieldError[]; // Invalid arguments, so the model can correct the call
 }
 
 export interface SpreadsheetInfo {
   id: string;
   title: string;
   sheets: SheetInfo[];
+  namedRanges?: NamedRangeInfo[];
   permissions: string[];
 }
 
+export interface NamedRangeInfo {
+  name: string;
+  range: string; // A1 notation including the sheet name
+}
+
 export interface SheetInfo {
   id: number;
   title: string;
@@ -43,12 +172,15 @@ export interface SheetInfo {
   columnCount: number;
 }
 
+// Parsed form of an A1/R1C1 range. Indexes are 0-based with exclusive ends;
+// an omitted bound is unbounded (e.g. A:A has no row bounds).
 export interface CellRange {
-  sheet: string;
-  startRow: number;
-  startCol: number;
-  endRow: number;
-  endCol: number;
+  sheet?: string;
+  namedRange?: string;
+  startRow?: number;
+  startCol?: number;
+  endRow?: number;
+  endCol?: number;
 }
 
 export interface CellData {
@@ -57,26 +189,234 @@ export interface CellData {
 }
 
 export interface SheetsOperation {
-  type: 'read' | 'write' | 'create' | 'format' | 'formula';
+  type:
+    | 'read'
+    | 'write'
+    | 'create'
+    | 'format'
+    | 'formula'
+    | 'insertRows'
+    | 'deleteRows'
+    | 'insertColumns'
+    | 'deleteColumns'
+    | 'sort'
+    | 'merge'
+    | 'unmerge'
+    | 'renameSheet'
+    | 'deleteSheet'
+    | 'duplicateSheet'
+    | 'hideSheet'
+    | 'moveSheet'
+    | 'freeze';
   range?: string;
   values?: any[][];
   sheetName?: string;
   formula?: string;
   formatting?: CellFormatting;
+  startIndex?: number; // 0-based row or column index for insert/delete
+  count?: number;
+  sortSpecs?: SortSpec[];
+  mergeType?: 'MERGE_ALL' | 'MERGE_COLUMNS' | 'MERGE_ROWS';
+  newName?: string;
+  newIndex?: number;
+  hidden?: boolean;
+  frozenRows?: number;
+  frozenColumns?: number;
+}
+
+export interface SortSpec {
+  column: string; // Column letter, e.g. 'B'
+  ascending?: boolean;
+}
+
+export interface PendingOperation {
+  id: string;
+  spreadsheetId: string;
+  operation: SheetsOperation;
+  status: 'pending' | 'applying' | 'approved' | 'rejected' | 'expired' | 'failed';
+  toolCallId?: string;
+  createdAt: Date;
+  expiresAt: Date;
+  resolvedAt?: Date;
+  result?: any;
+  error?: string;
+}
+
+export interface CellChange {
+  cell: string;
+  oldValue?: any;
+  newValue?: any;
+  oldFormula?: string;
+  newFormula?: string;
+}
+
+export interface FormatChange {
+  cell: string;
+  property: keyof CellFormatting;
+  oldValue?: any;
+  newValue?: any;
+}
+
+export interface OperationDiff {
+  operation: SheetsOperation['type'];
+  range?: string;
+  cells: CellChange[];
+  formats: FormatChange[];
+  newSheet?: { title: string };
+  description?: string; // Summary of structural changes that are not expressed per cell
+  hasChanges: boolean;
+}
+
+export interface BatchOperationResult {
+  index: number;
+  type: SheetsOperation['type'];
+  status: 'applied' | 'failed' | 'skipped' | 'rolled_back';
+  result?: any;
+  error?: string;
+  code?: ErrorCode; // Why a failed step failed, when known
+}
+
+export interface BatchResult {
+  success: boolean;
+  results: BatchOperationResult[];
+  rolledBack: boolean;
+  apiCalls: number;
+}
+
+export interface HistoryEntryInfo {
+  id: string;
+  operation: SheetsOperation['type'] | 'batch'; // A batch of operations is undone as one change
+  target: string;
+  timestamp: Date;
 }
 
 export interface CellFormatting {
   backgroundColor?: string;
   textColor?: string;
   fontSize?: number;
+  fontFamily?: string;
   bold?: boolean;
   italic?: boolean;
   underline?: boolean;
+  strikethrough?: boolean;
+  horizontalAlignment?: 'LEFT' | 'CENTER' | 'RIGHT';
+  verticalAlignment?: 'TOP' | 'MIDDLE' | 'BOTTOM';
+  wrapStrategy?: 'OVERFLOW_CELL' | 'LEGACY_WRAP' | 'CLIP' | 'WRAP';
+  numberFormat?: NumberFormat;
+  textRotation?: number | 'vertical'; // Angle in degrees (-90 to 90) or stacked vertical text
+  borders?: CellBorders;
+}
+
+export interface NumberFormat {
+  type: 'TEXT' | 'NUMBER' | 'PERCENT' | 'CURRENCY' | 'DATE' | 'TIME' | 'DATE_TIME' | 'SCIENTIFIC';
+  pattern?: string; // e.g. '#,##0.00', 'yyyy-mm-dd', '[$$]#,##0.00'
+}
+
+export interface CellBorders {
+  top?: BorderStyle;
+  bottom?: BorderStyle;
+  left?: BorderStyle;
+  right?: BorderStyle;
+}
+
+export interface BorderStyle {
+  style: 'NONE' | 'DOTTED' | 'DASHED' | 'SOLID' | 'SOLID_MEDIUM' | 'SOLID_THICK' | 'DOUBLE';
+  color?: string;
+}
+
+// Request bodies and query strings of the REST endpoints
+export interface AuthUrlQuery {
+  state?: string;
+}
+
+export interface AuthCallbackRequest {
+  code: string;
+}
+
+export interface CreateSessionRequest {
+  spreadsheetId?: string;
+}
+
+export interface UpdatePendingOperationRequest {
+  operation: Partial<SheetsOperation>; // The type cannot be changed
+}
+
+export interface ApprovePendingOperationRequest {
+  operation?: Partial<SheetsOperation>; // Last-minute edits applied before running it
+}
+
+export interface RejectPendingOperationRequest {
+  reason?: string;
+}
+
+export interface SaveApiKeyRequest {
+  apiKey: string;
+  test?: boolean; // Refuse to save a key the provider rejects
+}
+
+export interface TestApiKeyRequest {
+  apiKey?: string; // Tests the saved key when omitted
+}
+
+export interface OperationRequest {
+  operation: SheetsOperation;
+  dryRun?: boolean;
+}
+
+export interface BatchRequest {
+  operations: SheetsOperation[];
+  atomic?: boolean; // Roll back applied operations if a later one fails
+}
+
+export interface ModelsQuery {
+  provider?: string;
+}
+
+export interface AuthUrlResponse {
+  authUrl: string;
+}
+
+export interface AuthSessionInfo {
+  user: { id: string; email?: string; name?: string };
+  expiryDate?: number; // When the current Google access token expires, in ms since the epoch
+}
+
+export interface CreateSessionResponse {
+  sessionId: string;
+}
+
+export interface CancelGenerationResponse {
+  cancelled: boolean; // False when nothing was streaming
+}
+
+export type ErrorCode =
+  | 'VALIDATION_FAILED' // The request did not match its schema; see details
+  | 'BAD_REQUEST'
+  | 'INVALID_RANGE'
+  | 'INVALID_OPERATION' // A spreadsheet operation is missing fields its type needs
+  | 'UNAUTHENTICATED'
+  | 'PERMISSION_DENIED' // The user cannot open or edit the spreadsheet
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'RATE_LIMITED'
+  | 'AI_TOKEN_LIMIT' // The user's daily AI token cap is used up
+  | 'QUOTA_EXCEEDED' // Google's API quota; see retryAfter
+  | 'OPERATION_FAILED'
+  | 'UPSTREAM_ERROR' // Google returned a server error
+  | 'UPSTREAM_UNAVAILABLE' // Google could not be reached
+  | 'INTERNAL_ERROR';
+
+export interface FieldError {
+  path: string; // e.g. 'operation.values' or 'operations[2].type'
+  message: string;
 }
 
 export interface APIResponse<T = any> {
   success: boolean;
   data?: T;
   error?: string;
+  code?: ErrorCode; // Set whenever success is false
+  details?: FieldError[];
+  retryAfter?: number; // Seconds, on RATE_LIMITED, AI_TOKEN_LIMIT and QUOTA_EXCEEDED
   timestamp: string;
 }
\ No newline at end of file
@@ -0,0 +1,36 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { decrypt, deriveEncryptionKey, encrypt, generateToken, hashToken } from './crypto';
+
+const key = deriveEncryptionKey('correct horse battery staple');
+
+test('encrypted text round-trips and never repeats a ciphertext', () => {
+  const first = encrypt('ya29.secret-token', key);
+  const second = encrypt('ya29.secret-token', key);
+
+  assert.notEqual(first, second);
+  assert.ok(!first.includes('secret'));
+  assert.equal(decrypt(first, key), 'ya29.secret-token');
+  assert.equal(decrypt(encrypt('', key), key), '');
+});
+
+test('tampered values and the wrong key are rejected', () => {
+  const payload = encrypt('ya29.secret-token', key);
+  const [version, iv, tag, ciphertext] = payload.split(':');
+
+  const flipped = Buffer.from(ciphertext, 'base64');
+  flipped[0] ^= 1;
+  assert.throws(() => decrypt([version, iv, tag, flipped.toString('base64')].join(':'), key));
+  assert.throws(() => decrypt([version, iv, Buffer.alloc(16).toString('base64'), ciphertext].join(':'), key));
+  assert.throws(() => decrypt(payload, deriveEncryptionKey('another secret')));
+  assert.throws(() => decrypt(`v0:${iv}:${tag}:${ciphertext}`, key), /Unsupported encrypted value/);
+});
+
+test('tokens are random and stored only as hashes', () => {
+  const token = generateToken();
+
+  assert.match(token, /^[A-Za-z0-9_-]{43}$/);
+  assert.notEqual(generateToken(), token);
+  assert.equal(hashToken(token), hashToken(token));
+  assert.match(hashToken(token), /^[0-9a-f]{64}$/);
+});
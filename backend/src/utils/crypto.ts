@@ -0,0 +1,53 @@
+import crypto from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const KEY_SALT = 'sheets-ide-encryption-key';
+const VERSION = 'v1';
+
+/**
+ * Derive a 256-bit key from the configured secret, which may be any passphrase
+ */
+export function deriveEncryptionKey(secret: string): Buffer {
+  return crypto.scryptSync(secret, KEY_SALT, 32);
+}
+
+/**
+ * Encrypt text with AES-256-GCM. The result is self-contained: version, IV, auth tag and ciphertext.
+ */
+export function encrypt(plaintext: string, key: Buffer): string {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return [VERSION, iv.toString('base64'), cipher.getAuthTag().toString('base64'), ciphertext.toString('base64')].join(':');
+}
+
+/**
+ * Decrypt a value produced by encrypt(). Throws if it was tampered with or the key is wrong.
+ */
+export function decrypt(payload: string, key: Buffer): string {
+  const [version, iv, tag, ciphertext] = payload.split(':');
+  if (version !== VERSION || !iv || !tag || ciphertext === undefined) {
+    throw new Error('Unsupported encrypted value');
+  }
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+}
+
+/**
+ * Random URL-safe token for use as an opaque identifier
+ */
+export function generateToken(bytes: number = 32): string {
+  return crypto.randomBytes(bytes).toString('base64url');
+}
+
+/**
+ * SHA-256 of a token, so stored identifiers cannot be replayed if the store leaks
+ */
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
@@ -0,0 +1,90 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  ApiError,
+  ConflictError,
+  InvalidRangeError,
+  InvalidRequestError,
+  NotFoundError,
+  PermissionDeniedError,
+  QuotaExceededError,
+  UnauthenticatedError,
+  UpstreamError,
+  fromGoogleError,
+  fromGoogleResponse,
+} from './errors';
+
+// The shape of a GaxiosError from googleapis
+function googleError(status: number, message: string, extra: { status?: string; reason?: string; headers?: any } = {}) {
+  return {
+    message: `Request failed with status code ${status}`,
+    response: {
+      status,
+      headers: extra.headers || {},
+      data: {
+        error: {
+          code: status,
+          message,
+          status: extra.status,
+          errors: extra.reason ? [{ reason: extra.reason, message }] : undefined,
+        },
+      },
+    },
+  };
+}
+
+test('HTTP statuses map to typed errors with Google\'s message after the context', () => {
+  const cases: Array<[number, string, new (...args: any[]) => ApiError, number]> = [
+    [400, 'Invalid value at data.values', InvalidRequestError, 400],
+    [401, 'Request had invalid authentication credentials', UnauthenticatedError, 401],
+    [403, 'The caller does not have permission', PermissionDeniedError, 403],
+    [404, 'Requested entity was not found', NotFoundError, 404],
+    [409, 'Sheet already exists', ConflictError, 409],
+    [500, 'Internal error encountered', UpstreamError, 502],
+    [503, 'The service is currently unavailable', UpstreamError, 503],
+  ];
+
+  for (const [status, message, type, mappedStatus] of cases) {
+    const error = fromGoogleError(googleError(status, message), 'Failed to read range A1');
+    assert.ok(error instanceof type, `${status} should be a ${type.name}`);
+    assert.equal((error as ApiError).status, mappedStatus);
+    assert.equal(error.message, `Failed to read range A1: ${message}`);
+  }
+});
+
+test('bad ranges are told apart from other invalid requests', () => {
+  assert.ok(fromGoogleError(googleError(400, 'Unable to parse range: Sheet9!A1'), 'Failed to read') instanceof InvalidRangeError);
+});
+
+test('quota failures carry Retry-After, including legacy 403 quota reasons', () => {
+  const tooMany = fromGoogleError(googleError(429, 'Quota exceeded', { status: 'RESOURCE_EXHAUSTED', headers: { 'retry-after': '30' } }), 'Failed to write');
+  assert.ok(tooMany instanceof QuotaExceededError);
+  assert.equal(tooMany.status, 429);
+  assert.equal(tooMany.retryAfter, 30);
+
+  const legacy = fromGoogleError(googleError(403, 'User rate limit exceeded', { reason: 'userRateLimitExceeded' }), 'Failed to write');
+  assert.ok(legacy instanceof QuotaExceededError);
+});
+
+test('revoked refresh tokens and network failures are recognized', () => {
+  const revoked = fromGoogleError({ message: 'invalid_grant', response: { status: 400, data: { error: 'invalid_grant', error_description: 'Token has been expired or revoked.' } } }, 'Failed to refresh token');
+  assert.ok(revoked instanceof UnauthenticatedError);
+  assert.equal(revoked.message, 'Failed to refresh token: Token has been expired or revoked.');
+
+  const offline = fromGoogleError({ message: 'fetch failed', cause: { code: 'ECONNREFUSED' } }, 'Failed to get user info');
+  assert.ok(offline instanceof UpstreamError);
+  assert.equal((offline as UpstreamError).status, 503);
+
+  assert.ok(fromGoogleResponse({ status: 404, statusText: 'Not Found' }, 'Failed to revoke token') instanceof NotFoundError);
+});
+
+test('typed errors keep their type and unrecognized errors stay plain', () => {
+  const inner = new NotFoundError('Sheet Data not found');
+  const rewrapped = fromGoogleError(inner, 'Failed to sort');
+  assert.equal(rewrapped, inner);
+  assert.equal(rewrapped.message, 'Failed to sort: Sheet Data not found');
+
+  const plain = fromGoogleError(new Error('Something odd'), 'Failed to format');
+  assert.equal(plain.constructor, Error);
+  assert.equal(plain.message, 'Failed to format: Something odd');
+});
@@ -0,0 +1,157 @@
+import { ErrorCode, FieldError } from '../types/shared';
+
+/**
+ * An error that maps to a specific HTTP status and error code. The error middleware sends
+ * these as they are; any other error becomes a 500.
+ */
+export class ApiError extends Error {
+  constructor(message: string, public status: number, public code: ErrorCode, public retryAfter?: number) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export class InvalidRequestError extends ApiError {
+  constructor(message: string) {
+    super(message, 400, 'BAD_REQUEST');
+    this.name = 'InvalidRequestError';
+  }
+}
+
+// A range that cannot be parsed or does not fit the sheet
+export class InvalidRangeError extends ApiError {
+  constructor(message: string) {
+    super(message, 400, 'INVALID_RANGE');
+    this.name = 'InvalidRangeError';
+  }
+}
+
+// An operation missing the fields its type needs, or with values Sheets cannot use
+export class InvalidOperationError extends ApiError {
+  constructor(message: string, public details?: FieldError[]) {
+    super(message, 400, 'INVALID_OPERATION');
+    this.name = 'InvalidOperationError';
+  }
+}
+
+// The Google sign-in is missing, expired or revoked
+export class UnauthenticatedError extends ApiError {
+  constructor(message: string) {
+    super(message, 401, 'UNAUTHENTICATED');
+    this.name = 'UnauthenticatedError';
+  }
+}
+
+// The user cannot open or edit the spreadsheet
+export class PermissionDeniedError extends ApiError {
+  constructor(message: string) {
+    super(message, 403, 'PERMISSION_DENIED');
+    this.name = 'PermissionDeniedError';
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(message: string) {
+    super(message, 404, 'NOT_FOUND');
+    this.name = 'NotFoundError';
+  }
+}
+
+export class ConflictError extends ApiError {
+  constructor(message: string) {
+    super(message, 409, 'CONFLICT');
+    this.name = 'ConflictError';
+  }
+}
+
+// Google's per-user or per-project request quota
+export class QuotaExceededError extends ApiError {
+  constructor(message: string, retryAfter?: number) {
+    super(message, 429, 'QUOTA_EXCEEDED', retryAfter);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+// Google failed or could not be reached; worth retrying later
+export class UpstreamError extends ApiError {
+  constructor(message: string, status: number = 502) {
+    super(message, status, status === 503 ? 'UPSTREAM_UNAVAILABLE' : 'UPSTREAM_ERROR');
+    this.name = 'UpstreamError';
+  }
+}
+
+// Connection failures reported by Node rather than by Google
+const NETWORK_ERROR_CODES = new Set(['ECONNRESET', 'ECONNREFUSED', 'ENOTFOUND', 'ETIMEDOUT', 'EAI_AGAIN', 'ECONNABORTED']);
+
+// Legacy Sheets quota failures arrive as 403s with one of these reasons
+const QUOTA_REASONS = new Set(['rateLimitExceeded', 'userRateLimitExceeded', 'quotaExceeded', 'dailyLimitExceeded']);
+
+/**
+ * Turn an error from a googleapis or google-auth-library call into a typed error, with the
+ * context prefixed to Google's message, e.g. "Failed to read range A1: Requested entity was not
+ * found". Typed errors from nested calls keep their type; errors that are not recognized
+ * are returned as plain errors.
+ */
+export function fromGoogleError(error: any, context: string): Error {
+  const detail = googleErrorMessage(error);
+  const message = `${context}: ${detail}`;
+
+  if (error instanceof ApiError) {
+    error.message = message;
+    return error;
+  }
+
+  const status = googleErrorStatus(error);
+  const grpcStatus: string | undefined = error?.response?.data?.error?.status;
+  const reason: string | undefined = error?.response?.data?.error?.errors?.[0]?.reason || error?.errors?.[0]?.reason;
+  // OAuth endpoints use the RFC 6749 shape, e.g. { error: 'invalid_grant' }
+  const oauthError = typeof error?.response?.data?.error === 'string' ? error.response.data.error : undefined;
+
+  if (oauthError === 'invalid_grant') return new UnauthenticatedError(message);
+  if (status === 429 || grpcStatus === 'RESOURCE_EXHAUSTED' || (status === 403 && reason && QUOTA_REASONS.has(reason))) {
+    return new QuotaExceededError(message, retryAfterSeconds(error));
+  }
+  if (status === 400) {
+    return /range/i.test(detail) ? new InvalidRangeError(message) : new InvalidRequestError(message);
+  }
+  if (status === 401) return new UnauthenticatedError(message);
+  if (status === 403) return new PermissionDeniedError(message);
+  if (status === 404) return new NotFoundError(message);
+  if (status === 409) return new ConflictError(message);
+  if (status !== undefined && status >= 500) return new UpstreamError(message, status === 503 ? 503 : 502);
+  // fetch() reports the socket error as its cause
+  if (NETWORK_ERROR_CODES.has(error?.code) || NETWORK_ERROR_CODES.has(error?.cause?.code)) {
+    return new UpstreamError(message, 503);
+  }
+
+  const plain = new Error(message);
+  plain.stack = error?.stack || plain.stack;
+  return plain;
+}
+
+/**
+ * Typed error for a failed fetch() to a Google endpoint
+ */
+export function fromGoogleResponse(response: { status: number; statusText: string }, context: string): Error {
+  return fromGoogleError({ response: { status: response.status }, message: response.statusText || `HTTP ${response.status}` }, context);
+}
+
+function googleErrorStatus(error: any): number | undefined {
+  const status = error?.response?.status ?? error?.status ?? error?.code;
+  return typeof status === 'number' ? status : undefined;
+}
+
+// Prefer Google's own description over the transport's "Request failed with status code 404"
+function googleErrorMessage(error: any): string {
+  const data = error?.response?.data;
+  if (typeof data?.error?.message === 'string') return data.error.message;
+  if (typeof data?.error_description === 'string') return data.error_description;
+  return error?.message || 'Unknown error';
+}
+
+function retryAfterSeconds(error: any): number | undefined {
+  const headers = error?.response?.headers;
+  const value = typeof headers?.get === 'function' ? headers.get('retry-after') : headers?.['retry-after'];
+  const seconds = parseInt(value, 10);
+  return Number.isFinite(seconds) ? seconds : undefined;
+}
@@ -0,0 +1,99 @@
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+const LEVEL_ORDER: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+export interface LoggerOptions {
+  level: LogLevel;
+  format: 'json' | 'pretty'; // One JSON object per line, or readable text for local development
+}
+
+/**
+ * Leveled logger writing one line per entry. Child loggers carry fields such as the request id
+ * into every entry they write.
+ */
+export class Logger {
+  constructor(private options: LoggerOptions, private fields: LogFields = {}) {}
+
+  debug(message: string, fields?: LogFields): void {
+    this.write('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.write('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.write('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.write('error', message, fields);
+  }
+
+  /**
+   * A logger that adds these fields to every entry
+   */
+  child(fields: LogFields): Logger {
+    return new Logger(this.options, { ...this.fields, ...fields });
+  }
+
+  private write(level: LogLevel, message: string, fields?: LogFields): void {
+    if (LEVEL_ORDER[level] < LEVEL_ORDER[this.options.level]) return;
+
+    const entry: LogFields = { ...this.fields, ...fields };
+    for (const [key, value] of Object.entries(entry)) {
+      if (value instanceof Error) entry[key] = serializeError(value);
+    }
+
+    const line = this.options.format === 'json'
+      ? JSON.stringify({ time: new Date().toISOString(), level, msg: message, ...entry })
+      : formatPretty(level, message, entry);
+
+    if (level === 'error' || level === 'warn') {
+      process.stderr.write(`${line}\n`);
+    } else {
+      process.stdout.write(`${line}\n`);
+    }
+  }
+}
+
+function serializeError(error: Error): LogFields {
+  return {
+    name: error.name,
+    message: error.message,
+    ...(typeof (error as any).status === 'number' ? { status: (error as any).status } : {}),
+    stack: error.stack,
+  };
+}
+
+function formatPretty(level: LogLevel, message: string, fields: LogFields): string {
+  const details = Object.entries(fields)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => {
+      if (value && typeof value === 'object' && 'stack' in value) {
+        return `${key}=${(value as any).message}\n${(value as any).stack}`;
+      }
+      return `${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`;
+    });
+
+  return [new Date().toISOString(), level.toUpperCase().padEnd(5), message, ...details].join(' ');
+}
+
+function parseLevel(value: string | undefined): LogLevel {
+  return value && value in LEVEL_ORDER ? value as LogLevel : 'info';
+}
+
+/**
+ * Process-wide logger, configured by LOG_LEVEL and LOG_FORMAT. Output is JSON in production.
+ */
+export const logger = new Logger({
+  level: parseLevel(process.env.LOG_LEVEL),
+  format: (process.env.LOG_FORMAT || (process.env.NODE_ENV === 'production' ? 'json' : 'pretty')) === 'json' ? 'json' : 'pretty',
+});
@@ -0,0 +1,148 @@
+/**
+ * Minimal Prometheus metrics: counters, gauges and histograms with labels, rendered in the
+ * text exposition format.
+ */
+
+export type Labels = Record<string, string | number>;
+
+interface Metric {
+  render(): string;
+}
+
+// Request latencies in seconds, from 5ms to 30s
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+export class MetricsRegistry {
+  private metrics: Metric[] = [];
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  gauge(name: string, help: string): Gauge {
+    return this.register(new Gauge(name, help));
+  }
+
+  histogram(name: string, help: string, buckets: number[] = DEFAULT_BUCKETS): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  /**
+   * All metrics in the Prometheus text format
+   */
+  render(): string {
+    return this.metrics.map(metric => metric.render()).join('\n') + '\n';
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
+  }
+}
+
+export class Counter implements Metric {
+  private values = new Map<string, number>();
+
+  constructor(private name: string, private help: string) {}
+
+  inc(labels: Labels = {}, amount: number = 1): void {
+    const key = labelKey(labels);
+    this.values.set(key, (this.values.get(key) || 0) + amount);
+  }
+
+  render(): string {
+    return [
+      header(this.name, this.help, 'counter'),
+      ...Array.from(this.values, ([key, value]) => `${this.name}${key} ${value}`),
+    ].join('\n');
+  }
+}
+
+export class Gauge implements Metric {
+  private values = new Map<string, number>();
+
+  constructor(private name: string, private help: string) {}
+
+  inc(labels: Labels = {}, amount: number = 1): void {
+    const key = labelKey(labels);
+    this.values.set(key, (this.values.get(key) || 0) + amount);
+  }
+
+  dec(labels: Labels = {}, amount: number = 1): void {
+    this.inc(labels, -amount);
+  }
+
+  render(): string {
+    // Always expose the unlabelled series so a gauge reads 0 before anything happens
+    const values = this.values.size > 0 ? this.values : new Map([['', 0]]);
+    return [
+      header(this.name, this.help, 'gauge'),
+      ...Array.from(values, ([key, value]) => `${this.name}${key} ${value}`),
+    ].join('\n');
+  }
+}
+
+export class Histogram implements Metric {
+  private series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  constructor(private name: string, private help: string, private buckets: number[]) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) series!.counts[index]++;
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  /**
+   * Start a timer; calling the result records the elapsed seconds
+   */
+  startTimer(labels: Labels = {}): (extraLabels?: Labels) => number {
+    const start = process.hrtime.bigint();
+    return (extraLabels: Labels = {}) => {
+      const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+      this.observe({ ...labels, ...extraLabels }, seconds);
+      return seconds;
+    };
+  }
+
+  render(): string {
+    const lines = [header(this.name, this.help, 'histogram')];
+
+    for (const series of this.series.values()) {
+      this.buckets.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${labelKey({ ...series.labels, le: bound })} ${series.counts[index]}`);
+      });
+      lines.push(`${this.name}_bucket${labelKey({ ...series.labels, le: '+Inf' })} ${series.count}`);
+      lines.push(`${this.name}_sum${labelKey(series.labels)} ${series.sum}`);
+      lines.push(`${this.name}_count${labelKey(series.labels)} ${series.count}`);
+    }
+
+    return lines.join('\n');
+  }
+}
+
+function header(name: string, help: string, type: string): string {
+  return `# HELP ${name} ${help}\n# TYPE ${name} ${type}`;
+}
+
+/**
+ * Render labels as `{a="1",b="2"}` with sorted names, which also serves as the series key
+ */
+function labelKey(labels: Labels): string {
+  const entries = Object.entries(labels).sort(([a], [b]) => a.localeCompare(b));
+  if (entries.length === 0) return '';
+
+  const escaped = entries.map(([name, value]) =>
+    `${name}="${String(value).replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')}"`
+  );
+  return `{${escaped.join(',')}}`;
+}
@@ -0,0 +1,103 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SheetInfo } from '../types/shared';
+import {
+  boundGridRange,
+  columnToIndex,
+  formatR1C1,
+  indexToColumn,
+  parseRange,
+  quoteSheetName,
+  resolveGridRange,
+  toA1Notation,
+} from './range';
+
+const SHEETS: SheetInfo[] = [
+  { id: 0, title: 'Sheet1', rowCount: 1000, columnCount: 26 },
+  { id: 7, title: 'Data', rowCount: 100, columnCount: 10 },
+];
+
+test('column letters convert to indexes and back', () => {
+  assert.equal(columnToIndex('A'), 0);
+  assert.equal(columnToIndex('z'), 25);
+  assert.equal(columnToIndex('AA'), 26);
+  assert.equal(indexToColumn(25), 'Z');
+  assert.equal(indexToColumn(26), 'AA');
+  assert.equal(indexToColumn(701), 'ZZ');
+  assert.equal(columnToIndex(indexToColumn(18277)), 18277);
+});
+
+test('A1 cells, rectangles, columns and rows parse to 0-based, end-exclusive bounds', () => {
+  assert.deepEqual(parseRange('B3'), { sheet: undefined, startCol: 1, startRow: 2, endCol: 2, endRow: 3 });
+  assert.deepEqual(parseRange('Sheet1!$A$1:B2'), { sheet: 'Sheet1', startCol: 0, startRow: 0, endCol: 2, endRow: 2 });
+  assert.deepEqual(parseRange('A:C'), { sheet: undefined, startCol: 0, endCol: 3 });
+  assert.deepEqual(parseRange('2:5'), { sheet: undefined, startRow: 1, endRow: 5 });
+  assert.deepEqual(parseRange('A2:C'), { sheet: undefined, startCol: 0, startRow: 1, endCol: 3 });
+});
+
+test('reversed corners are put in order', () => {
+  assert.deepEqual(parseRange('C3:A1'), parseRange('A1:C3'));
+});
+
+test('quoted sheet names may contain spaces, "!" and doubled quotes', () => {
+  assert.deepEqual(parseRange("'Q1 Sales'!A1"), { sheet: 'Q1 Sales', startCol: 0, startRow: 0, endCol: 1, endRow: 1 });
+  assert.equal(parseRange("'Wow!'!A1").sheet, 'Wow!');
+  assert.equal(parseRange("'It''s'!A1").sheet, "It's");
+  assert.deepEqual(parseRange("'Q1 Sales'"), { sheet: 'Q1 Sales' });
+});
+
+test('absolute R1C1 references parse like their A1 equivalents', () => {
+  assert.deepEqual(parseRange('R2C2:R3C4'), { sheet: undefined, startRow: 1, startCol: 1, endRow: 3, endCol: 4 });
+  assert.deepEqual(parseRange('Data!R1C1'), { ...parseRange('Data!A1'), sheet: 'Data' });
+  assert.equal(formatR1C1(parseRange('Data!B2:C3')), 'Data!R2C2:R3C3');
+});
+
+test('bare names are returned as named ranges', () => {
+  assert.deepEqual(parseRange('Totals'), { namedRange: 'Totals' });
+});
+
+test('malformed ranges are rejected', () => {
+  for (const input of ['', '   ', 'A1:B2:C3', "'Open!A1", "'Sheet'A1", 'A:5', 'Sheet1!Totals']) {
+    assert.throws(() => parseRange(input), /Invalid range/, input);
+  }
+});
+
+test('ranges re-serialize as A1, quoting sheet names only when needed', () => {
+  assert.equal(toA1Notation("'Q1 Sales'!R1C1:R2C3"), "'Q1 Sales'!A1:C2");
+  assert.equal(toA1Notation('Sheet1!B2'), 'Sheet1!B2');
+  assert.equal(toA1Notation('A2:C'), 'A2:C');
+  assert.equal(toA1Notation('2:5'), '2:5');
+  assert.equal(quoteSheetName('Sheet_1'), 'Sheet_1');
+  assert.equal(quoteSheetName("It's"), "'It''s'");
+  assert.equal(quoteSheetName('A1'), "'A1'");
+});
+
+test('ranges resolve against sheets and named ranges', () => {
+  assert.deepEqual(resolveGridRange('A1:B2', SHEETS), {
+    sheetId: 0,
+    startRowIndex: 0,
+    endRowIndex: 2,
+    startColumnIndex: 0,
+    endColumnIndex: 2,
+  });
+  assert.deepEqual(resolveGridRange('Data', SHEETS), { sheetId: 7 });
+  assert.deepEqual(resolveGridRange('Totals', SHEETS, [{ name: 'Totals', range: 'Data!B2:B10' }]), {
+    sheetId: 7,
+    startRowIndex: 1,
+    endRowIndex: 10,
+    startColumnIndex: 1,
+    endColumnIndex: 2,
+  });
+  assert.throws(() => resolveGridRange('Missing!A1', SHEETS), /Sheet Missing not found/);
+  assert.throws(() => resolveGridRange('Nowhere', SHEETS), /Named range or sheet Nowhere not found/);
+});
+
+test('unbounded edges are filled in from the sheet size', () => {
+  assert.deepEqual(boundGridRange({ sheetId: 7, startColumnIndex: 1, endColumnIndex: 2 }, SHEETS[1]), {
+    sheetId: 7,
+    startRowIndex: 0,
+    endRowIndex: 100,
+    startColumnIndex: 1,
+    endColumnIndex: 2,
+  });
+});
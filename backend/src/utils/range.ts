@@ -0,0 +1,322 @@
+import { CellRange, SheetInfo, NamedRangeInfo } from '../types/shared';
+import { InvalidRangeError, NotFoundError } from './errors';
+
+/**
+ * Sheets API GridRange: 0-based, end-exclusive indexes; omitted bounds are unbounded
+ */
+export interface GridRange {
+  sheetId: number;
+  startRowIndex?: number;
+  endRowIndex?: number;
+  startColumnIndex?: number;
+  endColumnIndex?: number;
+}
+
+// Rows and columns may be absolute ($A$1); the markers are accepted and dropped.
+// Sheets tops out at column ZZZ, so longer letter runs are names rather than cells.
+const A1_CELL = /^\$?([A-Z]{1,3})?\$?(\d+)?$/i;
+const R1C1_CELL = /^R(\d+)C(\d+)$/i;
+const R1C1_RANGE = /^R\d+C\d+(?::R\d+C\d+)?$/i;
+
+/**
+ * Convert column letters to a 0-based index (A=0, B=1, AA=26)
+ */
+export function columnToIndex(column: string): number {
+  let result = 0;
+  for (const char of column.toUpperCase()) {
+    result = result * 26 + (char.charCodeAt(0) - 'A'.charCodeAt(0) + 1);
+  }
+  return result - 1;
+}
+
+/**
+ * Convert a 0-based column index to letters (0=A, 25=Z, 26=AA)
+ */
+export function indexToColumn(index: number): string {
+  let column = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    column = String.fromCharCode('A'.charCodeAt(0) + ((n - 1) % 26)) + column;
+  }
+  return column;
+}
+
+/**
+ * Quote a sheet name for use in a range when it contains anything other than letters, digits and underscores
+ */
+export function quoteSheetName(sheetName: string): string {
+  if (/^[A-Za-z_][A-Za-z0-9_]*$/.test(sheetName) && !isCellReference(sheetName)) {
+    return sheetName;
+  }
+  return `'${sheetName.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Split "Sheet!A1:B2" into its sheet name and reference, unquoting the sheet name.
+ * Quoted names may contain "!" and use '' for a literal quote.
+ */
+export function splitSheetName(input: string): { sheetName?: string; reference: string; quoted: boolean } {
+  const trimmed = input.trim();
+
+  if (trimmed.startsWith("'")) {
+    let i = 1;
+    let name = '';
+    while (i < trimmed.length) {
+      if (trimmed[i] === "'" && trimmed[i + 1] === "'") {
+        name += "'";
+        i += 2;
+      } else if (trimmed[i] === "'") {
+        break;
+      } else {
+        name += trimmed[i++];
+      }
+    }
+
+    if (i >= trimmed.length) {
+      throw new InvalidRangeError(`Invalid range: unterminated sheet name in ${input}`);
+    }
+
+    const rest = trimmed.slice(i + 1);
+    if (rest && !rest.startsWith('!')) {
+      throw new InvalidRangeError(`Invalid range: ${input}`);
+    }
+    return { sheetName: name, reference: rest.slice(1), quoted: true };
+  }
+
+  const separator = trimmed.lastIndexOf('!');
+  if (separator < 0) {
+    return { reference: trimmed, quoted: false };
+  }
+  return { sheetName: trimmed.slice(0, separator), reference: trimmed.slice(separator + 1), quoted: false };
+}
+
+/**
+ * Parse a range in A1 or R1C1 notation, or a named range.
+ *
+ * Supports single cells (A1), rectangles (A1:B2), whole columns (A:C), whole rows (2:5),
+ * open-ended ranges (A2:C), whole sheets ('Q1 Sales') and absolute R1C1 (R1C1:R2C3).
+ * An unquoted bare name such as "Totals" may be a sheet or a named range; it is returned
+ * as namedRange and resolveGridRange decides which.
+ */
+export function parseRange(input: string): CellRange {
+  if (!input || !input.trim()) {
+    throw new InvalidRangeError('Invalid range: range is empty');
+  }
+
+  const { sheetName, reference, quoted } = splitSheetName(input);
+
+  if (!reference) {
+    if (sheetName !== undefined) return { sheet: sheetName };
+    throw new InvalidRangeError(`Invalid range: ${input}`);
+  }
+
+  if (R1C1_RANGE.test(reference)) {
+    return { sheet: sheetName, ...parseR1C1Reference(reference) };
+  }
+
+  const parts = reference.split(':');
+  if (parts.length > 2) {
+    throw new InvalidRangeError(`Invalid range: ${input}`);
+  }
+
+  const start = parseA1Cell(parts[0]);
+  const end = parts.length === 2 ? parseA1Cell(parts[1]) : start;
+  const isFullCell = (cell: typeof start) => !!cell && cell.row !== undefined && cell.column !== undefined;
+
+  if (parts.length === 1 && !isFullCell(start)) {
+    // Not a cell reference, so treat it as a named range (which cannot be sheet-qualified)
+    if (sheetName === undefined && !quoted && /^[A-Za-z_][A-Za-z0-9_.]*$/.test(reference)) {
+      return { namedRange: reference };
+    }
+    throw new InvalidRangeError(`Invalid range: ${input}`);
+  }
+
+  // Each side may be a cell (A2), a column (C) or a row (5), but a column cannot pair with a row
+  const columnOnly = (cell: typeof start) => !!cell && cell.row === undefined;
+  const rowOnly = (cell: typeof start) => !!cell && cell.column === undefined;
+  if (!start || !end || (columnOnly(start) && rowOnly(end)) || (rowOnly(start) && columnOnly(end))) {
+    throw new InvalidRangeError(`Invalid range: ${input}`);
+  }
+
+  const range: CellRange = { sheet: sheetName };
+  if (start.column !== undefined) range.startCol = start.column;
+  if (start.row !== undefined) range.startRow = start.row;
+  if (end.column !== undefined) range.endCol = end.column + 1;
+  if (end.row !== undefined) range.endRow = end.row + 1;
+
+  return normalizeRange(range, input);
+}
+
+/**
+ * Serialize a range in A1 notation
+ */
+export function formatA1(range: CellRange): string {
+  if (range.namedRange) return range.namedRange;
+
+  const prefix = range.sheet !== undefined ? quoteSheetName(range.sheet) : '';
+  const hasRows = range.startRow !== undefined || range.endRow !== undefined;
+  const hasCols = range.startCol !== undefined || range.endCol !== undefined;
+
+  if (!hasRows && !hasCols) {
+    if (!prefix) throw new Error('Cannot format a range with no sheet and no bounds');
+    return prefix;
+  }
+
+  const startCol = hasCols ? indexToColumn(range.startCol ?? 0) : '';
+  const startRow = range.startRow !== undefined ? String(range.startRow + 1) : hasRows ? '1' : '';
+  const endCol = range.endCol !== undefined ? indexToColumn(range.endCol - 1) : '';
+  const endRow = range.endRow !== undefined ? String(range.endRow) : '';
+
+  const start = `${startCol}${startRow}`;
+  const end = `${endCol}${endRow}`;
+  const isSingleCell = range.endRow === (range.startRow ?? 0) + 1 && range.endCol === (range.startCol ?? 0) + 1;
+  const reference = isSingleCell ? start : `${start}:${end}`;
+
+  return prefix ? `${prefix}!${reference}` : reference;
+}
+
+/**
+ * Serialize a bounded range in R1C1 notation
+ */
+export function formatR1C1(range: CellRange): string {
+  if (range.startRow === undefined || range.startCol === undefined || range.endRow === undefined || range.endCol === undefined) {
+    throw new Error('R1C1 notation requires a fully bounded range');
+  }
+
+  const prefix = range.sheet !== undefined ? `${quoteSheetName(range.sheet)}!` : '';
+  const start = `R${range.startRow + 1}C${range.startCol + 1}`;
+  const end = `R${range.endRow}C${range.endCol}`;
+
+  return prefix + (start === end ? start : `${start}:${end}`);
+}
+
+/**
+ * Parse any supported notation and re-serialize it as A1, e.g. for the values API
+ */
+export function toA1Notation(input: string): string {
+  return formatA1(parseRange(input));
+}
+
+/**
+ * Convert a parsed range to a GridRange on the given sheet
+ */
+export function toGridRange(range: CellRange, sheetId: number): GridRange {
+  const gridRange: GridRange = { sheetId };
+  if (range.startRow !== undefined) gridRange.startRowIndex = range.startRow;
+  if (range.endRow !== undefined) gridRange.endRowIndex = range.endRow;
+  if (range.startCol !== undefined) gridRange.startColumnIndex = range.startCol;
+  if (range.endCol !== undefined) gridRange.endColumnIndex = range.endCol;
+  return gridRange;
+}
+
+/**
+ * Convert a GridRange back to a parsed range on the named sheet
+ */
+export function fromGridRange(gridRange: GridRange, sheetName?: string): CellRange {
+  return {
+    sheet: sheetName,
+    startRow: gridRange.startRowIndex,
+    endRow: gridRange.endRowIndex,
+    startCol: gridRange.startColumnIndex,
+    endCol: gridRange.endColumnIndex,
+  };
+}
+
+/**
+ * Resolve a range string to a GridRange using the spreadsheet's sheets and named ranges.
+ * Ranges without a sheet name refer to the first sheet.
+ */
+export function resolveGridRange(input: string, sheets: SheetInfo[], namedRanges: NamedRangeInfo[] = []): GridRange {
+  const range = parseRange(input);
+
+  if (range.namedRange) {
+    const sheet = sheets.find(s => s.title === range.namedRange);
+    if (sheet) return { sheetId: sheet.id };
+
+    const namedRange = namedRanges.find(n => n.name === range.namedRange);
+    if (!namedRange) {
+      throw new NotFoundError(`Named range or sheet ${range.namedRange} not found`);
+    }
+    return resolveGridRange(namedRange.range, sheets);
+  }
+
+  const sheet = range.sheet === undefined ? sheets[0] : sheets.find(s => s.title === range.sheet);
+  if (!sheet) {
+    throw new NotFoundError(`Sheet ${range.sheet} not found`);
+  }
+
+  return toGridRange(range, sheet.id);
+}
+
+/**
+ * Fill in unbounded edges of a GridRange with the sheet's dimensions
+ */
+export function boundGridRange(gridRange: GridRange, sheet: SheetInfo): Required<GridRange> {
+  return {
+    sheetId: gridRange.sheetId,
+    startRowIndex: gridRange.startRowIndex ?? 0,
+    endRowIndex: gridRange.endRowIndex ?? sheet.rowCount,
+    startColumnIndex: gridRange.startColumnIndex ?? 0,
+    endColumnIndex: gridRange.endColumnIndex ?? sheet.columnCount,
+  };
+}
+
+/**
+ * Address of a single cell in A1 notation, e.g. cellAddress(0, 1) === 'B1'
+ */
+export function cellAddress(row: number, column: number): string {
+  return `${indexToColumn(column)}${row + 1}`;
+}
+
+/**
+ * Whether a string is a valid A1 cell reference such as B2 or $B$2
+ */
+function isCellReference(value: string): boolean {
+  const cell = parseA1Cell(value);
+  return !!cell && cell.row !== undefined && cell.column !== undefined;
+}
+
+/**
+ * Parse one side of an A1 range. Either part may be missing (A or 5), but not both.
+ */
+function parseA1Cell(reference: string): { column?: number; row?: number } | null {
+  const match = reference.match(A1_CELL);
+  if (!match || (!match[1] && !match[2])) return null;
+
+  const row = match[2] !== undefined ? parseInt(match[2], 10) - 1 : undefined;
+  if (row !== undefined && row < 0) return null;
+
+  return {
+    column: match[1] ? columnToIndex(match[1]) : undefined,
+    row,
+  };
+}
+
+/**
+ * Parse an absolute R1C1 reference (R1C1 or R1C1:R2C3)
+ */
+function parseR1C1Reference(reference: string): CellRange {
+  const [start, end = start] = reference.split(':').map(part => part.match(R1C1_CELL)!);
+
+  return {
+    startRow: parseInt(start[1], 10) - 1,
+    startCol: parseInt(start[2], 10) - 1,
+    endRow: parseInt(end[1], 10),
+    endCol: parseInt(end[2], 10),
+  };
+}
+
+/**
+ * Order the corners of a range (B2:A1 becomes A1:B2) and reject zero-based row numbers
+ */
+function normalizeRange(range: CellRange, input: string): CellRange {
+  if (range.startRow !== undefined && range.endRow !== undefined && range.endRow <= range.startRow) {
+    [range.startRow, range.endRow] = [range.endRow - 1, range.startRow + 1];
+  }
+  if (range.startCol !== undefined && range.endCol !== undefined && range.endCol <= range.startCol) {
+    [range.startCol, range.endCol] = [range.endCol - 1, range.startCol + 1];
+  }
+  if ((range.startRow ?? 0) < 0 || (range.startCol ?? 0) < 0) {
+    throw new InvalidRangeError(`Invalid range: ${input}`);
+  }
+  return range;
+}
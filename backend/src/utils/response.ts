@@ -0,0 +1,34 @@
+import { Response } from 'express';
+import { APIResponse, ErrorCode } from '../types/shared';
+
+/**
+ * Send a successful APIResponse
+ */
+export function sendSuccess<T>(res: Response, data?: T, status: number = 200): Response {
+  const body: APIResponse<T> = {
+    success: true,
+    data,
+    timestamp: new Date().toISOString(),
+  };
+  return res.status(status).json(body);
+}
+
+/**
+ * Send a failed APIResponse with a machine-readable code alongside the message
+ */
+export function sendError(
+  res: Response,
+  status: number,
+  code: ErrorCode,
+  error: string,
+  extra: Pick<APIResponse, 'data' | 'details' | 'retryAfter'> = {}
+): Response {
+  const body: APIResponse = {
+    success: false,
+    error,
+    code,
+    ...extra,
+    timestamp: new Date().toISOString(),
+  };
+  return res.status(status).json(body);
+}
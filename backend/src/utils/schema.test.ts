@@ -0,0 +1,71 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { array, boolean, number, object, oneOf, optional, partial, string, union, validate } from './schema';
+
+interface Item {
+  name: string;
+  count?: number;
+  tags?: string[];
+}
+
+const item = object<Item>({
+  name: string({ minLength: 1, trim: true }),
+  count: optional(number({ integer: true, min: 1 })),
+  tags: optional(array(string(), { maxItems: 2 })),
+});
+
+test('valid objects come back trimmed and without unknown properties', () => {
+  assert.deepEqual(validate(item, { name: '  Widget ', count: 2, extra: true }), { value: { name: 'Widget', count: 2 } });
+});
+
+test('every problem is reported with its field path', () => {
+  const result = validate(item, { name: '', count: 1.5, tags: ['a', 3, 'c'] });
+
+  assert.deepEqual(result.errors, [
+    { path: 'name', message: 'Must not be empty' },
+    { path: 'count', message: 'Must be an integer' },
+    { path: 'tags', message: 'Must have at most 2 items' },
+  ]);
+  assert.deepEqual(validate(item, { tags: ['a', 3] }).errors, [
+    { path: 'name', message: 'Is required' },
+    { path: 'tags[1]', message: 'Must be a string' },
+  ]);
+});
+
+test('scalars check their type and bounds', () => {
+  assert.deepEqual(validate(number({ min: 0, max: 10 }), 11).errors, [{ path: '', message: 'Must be at most 10' }]);
+  assert.deepEqual(validate(number(), NaN).errors, [{ path: '', message: 'Must be a number' }]);
+  assert.deepEqual(validate(boolean(), 'true').errors, [{ path: '', message: 'Must be true or false' }]);
+  assert.deepEqual(validate(oneOf(['LEFT', 'RIGHT']), 'UP').errors, [{ path: '', message: 'Must be one of: LEFT, RIGHT' }]);
+  assert.deepEqual(validate(string({ pattern: /^#\w+$/, patternMessage: 'Must be a tag' }), 'tag').errors, [
+    { path: '', message: 'Must be a tag' },
+  ]);
+  assert.deepEqual(validate(object<Item>({ name: string(), count: optional(number()), tags: optional(array(string())) }), []).errors, [
+    { path: '', message: 'Must be an object' },
+  ]);
+});
+
+test('optional fields accept null as missing', () => {
+  assert.deepEqual(validate(item, { name: 'Widget', count: null }), { value: { name: 'Widget' } });
+});
+
+test('unions accept a value matching either schema', () => {
+  const rotation = union(number({ min: -90, max: 90 }), oneOf(['vertical']));
+
+  assert.equal(validate(rotation, 45).value, 45);
+  assert.equal(validate(rotation, 'vertical').value, 'vertical');
+  assert.deepEqual(validate(rotation, 120).errors, [{ path: '', message: 'Must be at most 90 or must be one of: vertical' }]);
+  assert.deepEqual(validate(rotation, 'sideways').errors, [{ path: '', message: 'Must be a number or must be one of: vertical' }]);
+  assert.deepEqual(validate(rotation, undefined).errors, [{ path: '', message: 'Is required' }]);
+});
+
+test('partial schemas make every property optional', () => {
+  const changes = partial<Item>({
+    name: string({ minLength: 1 }),
+    count: optional(number()),
+    tags: optional(array(string())),
+  });
+
+  assert.deepEqual(validate(changes, { count: 3 }), { value: { count: 3 } });
+  assert.deepEqual(validate(changes, { name: '' }).errors, [{ path: 'name', message: 'Must not be empty' }]);
+});
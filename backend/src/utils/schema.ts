@@ -0,0 +1,221 @@
+import { FieldError } from '../types/shared';
+
+/**
+ * Small runtime schemas for request validation. Object schemas are declared against the
+ * interfaces in types/shared.ts, so a field added there fails to compile until its schema
+ * is updated too.
+ */
+export interface Schema<T> {
+  // Returns the checked value; problems are pushed onto errors with their field path
+  check(value: unknown, path: string, errors: FieldError[]): T;
+}
+
+// One schema per property; optional properties need an optional() schema
+export type ObjectShape<T> = { [K in keyof T]-?: Schema<T[K]> };
+
+export type ValidationResult<T> = { value: T; errors?: undefined } | { value?: undefined; errors: FieldError[] };
+
+export interface StringOptions {
+  minLength?: number;
+  maxLength?: number;
+  pattern?: RegExp;
+  patternMessage?: string; // Describes the expected format when the pattern does not match
+  trim?: boolean;
+}
+
+export interface NumberOptions {
+  min?: number;
+  max?: number;
+  integer?: boolean;
+}
+
+export interface ArrayOptions {
+  minItems?: number;
+  maxItems?: number;
+}
+
+/**
+ * Check a value against a schema, collecting every problem rather than stopping at the first
+ */
+export function validate<T>(schema: Schema<T>, value: unknown): ValidationResult<T> {
+  const errors: FieldError[] = [];
+  const checked = schema.check(value, '', errors);
+  return errors.length > 0 ? { errors } : { value: checked };
+}
+
+export function string(options: StringOptions = {}): Schema<string> {
+  return {
+    check(value, path, errors) {
+      if (value === undefined || value === null) return required(path, errors);
+      if (typeof value !== 'string') return fail(path, 'Must be a string', errors);
+
+      const text = options.trim ? value.trim() : value;
+      if (options.minLength !== undefined && text.length < options.minLength) {
+        return fail(path, options.minLength === 1 ? 'Must not be empty' : `Must be at least ${options.minLength} characters`, errors);
+      }
+      if (options.maxLength !== undefined && text.length > options.maxLength) {
+        return fail(path, `Must be at most ${options.maxLength} characters`, errors);
+      }
+      if (options.pattern && !options.pattern.test(text)) {
+        return fail(path, options.patternMessage || 'Has an invalid format', errors);
+      }
+      return text;
+    },
+  };
+}
+
+export function number(options: NumberOptions = {}): Schema<number> {
+  return {
+    check(value, path, errors) {
+      if (value === undefined || value === null) return required(path, errors);
+      if (typeof value !== 'number' || !Number.isFinite(value)) return fail(path, 'Must be a number', errors);
+
+      if (options.integer && !Number.isInteger(value)) return fail(path, 'Must be an integer', errors);
+      if (options.min !== undefined && value < options.min) return fail(path, `Must be at least ${options.min}`, errors);
+      if (options.max !== undefined && value > options.max) return fail(path, `Must be at most ${options.max}`, errors);
+      return value;
+    },
+  };
+}
+
+export function boolean(): Schema<boolean> {
+  return {
+    check(value, path, errors) {
+      if (value === undefined || value === null) return required(path, errors);
+      if (typeof value !== 'boolean') return fail(path, 'Must be true or false', errors);
+      return value;
+    },
+  };
+}
+
+/**
+ * One of a fixed set of strings, e.g. an operation type
+ */
+export function oneOf<const T extends string>(values: readonly T[]): Schema<T> {
+  return {
+    check(value, path, errors) {
+      if (value === undefined || value === null) return required(path, errors);
+      if (!values.includes(value as T)) return fail(path, `Must be one of: ${values.join(', ')}`, errors);
+      return value as T;
+    },
+  };
+}
+
+/**
+ * Any JSON value, e.g. cell contents
+ */
+export function unknown(): Schema<unknown> {
+  return {
+    check(value) {
+      return value;
+    },
+  };
+}
+
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    check(value, path, errors) {
+      return value === undefined || value === null ? undefined : schema.check(value, path, errors);
+    },
+  };
+}
+
+export function array<T>(item: Schema<T>, options: ArrayOptions = {}): Schema<T[]> {
+  return {
+    check(value, path, errors) {
+      if (value === undefined || value === null) return required(path, errors);
+      if (!Array.isArray(value)) return fail(path, 'Must be an array', errors);
+
+      if (options.minItems !== undefined && value.length < options.minItems) {
+        return fail(path, options.minItems === 1 ? 'Must not be empty' : `Must have at least ${options.minItems} items`, errors);
+      }
+      if (options.maxItems !== undefined && value.length > options.maxItems) {
+        return fail(path, `Must have at most ${options.maxItems} items`, errors);
+      }
+      return value.map((entry, index) => item.check(entry, `${path}[${index}]`, errors));
+    },
+  };
+}
+
+/**
+ * The first schema that accepts the value. If neither does, both alternatives are reported,
+ * e.g. "Must be at most 90 or must be one of: vertical".
+ */
+export function union<A, B>(first: Schema<A>, second: Schema<B>): Schema<A | B> {
+  return {
+    check(value, path, errors) {
+      if (value === undefined || value === null) return required(path, errors);
+
+      const firstErrors: FieldError[] = [];
+      const checkedFirst = first.check(value, path, firstErrors);
+      if (firstErrors.length === 0) return checkedFirst;
+
+      const secondErrors: FieldError[] = [];
+      const checkedSecond = second.check(value, path, secondErrors);
+      if (secondErrors.length === 0) return checkedSecond;
+
+      return fail(path, `${describeAlternative(firstErrors, path)} or ${lowerFirst(describeAlternative(secondErrors, path))}`, errors);
+    },
+  };
+}
+
+/**
+ * A plain object with the given properties. Unknown properties are dropped.
+ */
+export function object<T>(shape: ObjectShape<T>): Schema<T> {
+  return {
+    check(value, path, errors) {
+      if (value === undefined || value === null) return required(path, errors);
+      if (typeof value !== 'object' || Array.isArray(value)) return fail(path, 'Must be an object', errors);
+
+      const result: Record<string, unknown> = {};
+      for (const key of Object.keys(shape) as Array<keyof T & string>) {
+        const checked = shape[key].check((value as Record<string, unknown>)[key], path ? `${path}.${key}` : key, errors);
+        if (checked !== undefined) result[key] = checked;
+      }
+      return result as T;
+    },
+  };
+}
+
+/**
+ * Like object(), with every property optional, for partial updates
+ */
+export function partial<T>(shape: ObjectShape<T>): Schema<Partial<T>> {
+  const optionalShape: { [K in keyof T]?: Schema<T[K] | undefined> } = {};
+  for (const key of Object.keys(shape) as Array<keyof T>) {
+    optionalShape[key] = optional(shape[key]);
+  }
+  // Every property of shape now has a schema
+  return object<Partial<T>>(optionalShape as ObjectShape<Partial<T>>);
+}
+
+/**
+ * One line listing every problem, e.g. "range is required; count must be at least 1"
+ */
+export function describeFieldErrors(errors: FieldError[]): string {
+  return errors
+    .map(error => `${error.path} ${lowerFirst(error.message)}`)
+    .join('; ');
+}
+
+// The problems with one branch of a union, naming any nested fields
+function describeAlternative(errors: FieldError[], path: string): string {
+  return errors
+    .map(error => (error.path === path ? error.message : `${error.path} ${lowerFirst(error.message)}`))
+    .join(', ');
+}
+
+function lowerFirst(message: string): string {
+  return `${message.charAt(0).toLowerCase()}${message.slice(1)}`;
+}
+
+function required(path: string, errors: FieldError[]): never {
+  return fail(path, 'Is required', errors);
+}
+
+// The returned value is never used once an error is recorded
+function fail(path: string, message: string, errors: FieldError[]): never {
+  errors.push({ path, message });
+  return undefined as never;
+}
@@ -0,0 +1,66 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { StreamingChatChunk } from '../types/shared';
+import { MockFixture, MockProvider } from '../services/mock';
+import { SSEDecoder, StreamError, readJSONStream } from './stream';
+
+const SSE_HEADERS = { get: (name: string) => (name.toLowerCase() === 'content-type' ? 'text/event-stream' : null) };
+
+/**
+ * Frame chunks the way the chat route writes them, then cut the bytes into small pieces
+ */
+async function* sseBody(chunks: AsyncIterable<StreamingChatChunk>, pieceSize: number): AsyncGenerator<Uint8Array> {
+  let text = '';
+  for await (const chunk of chunks) {
+    text += `data: ${JSON.stringify(chunk)}\n\n`;
+  }
+
+  const bytes = new TextEncoder().encode(text);
+  for (let offset = 0; offset < bytes.length; offset += pieceSize) {
+    yield bytes.slice(offset, offset + pieceSize);
+  }
+}
+
+test('streamed mock chunks decode unchanged however the bytes are split', async () => {
+  const fixture: MockFixture = {
+    name: 'unicode',
+    turns: [[
+      { type: 'text', content: 'Summe über Spalte A → ' },
+      { type: 'text', content: '€1.234 ✓' },
+      { type: 'complete', response: 'Summe über Spalte A → €1.234 ✓' },
+    ]],
+  };
+  const messages = [{ id: 'msg_1', role: 'user' as const, content: 'sum', timestamp: new Date() }];
+
+  for (const pieceSize of [1, 3, 7, 64]) {
+    const provider = new MockProvider({ fixtures: [fixture] }, 'unicode');
+    const decoded: StreamingChatChunk[] = [];
+    for await (const payload of readJSONStream({ headers: SSE_HEADERS, body: sseBody(provider.chat(messages, ''), pieceSize) })) {
+      decoded.push(payload);
+    }
+
+    assert.deepEqual(decoded, fixture.turns[0], `split into ${pieceSize}-byte pieces`);
+  }
+});
+
+test('CRLF split across pushes still ends the event once', () => {
+  const decoder = new SSEDecoder();
+
+  assert.deepEqual(decoder.push('data: {"a":1}\r'), []);
+  assert.deepEqual(decoder.push('\n\r\n').map(event => event.data), ['{"a":1}']);
+});
+
+test('error payloads stop the stream with their status', async () => {
+  async function* body() {
+    yield 'data: {"type":"text","content":"Hi"}\n\n';
+    yield 'event: error\ndata: {"error":{"type":"overloaded_error","message":"Overloaded"}}\n\n';
+  }
+
+  const decoded: any[] = [];
+  await assert.rejects(async () => {
+    for await (const payload of readJSONStream({ headers: SSE_HEADERS, body: body() })) {
+      decoded.push(payload);
+    }
+  }, (error: unknown) => error instanceof StreamError && error.status === 529 && error.message === 'Overloaded');
+  assert.deepEqual(decoded, [{ type: 'text', content: 'Hi' }]);
+});
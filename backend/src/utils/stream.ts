@@ -0,0 +1,261 @@
+/**
+ * Incremental decoders for streamed provider responses. Network chunks can end anywhere,
+ * including mid-line or mid-character, so input is buffered until a complete event arrives.
+ */
+
+export interface ServerSentEvent {
+  event?: string;
+  data: string;
+  id?: string;
+}
+
+/**
+ * An error reported inside a stream that had already started with a successful status
+ */
+export class StreamError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = 'StreamError';
+  }
+}
+
+// Streamed error types mapped to the HTTP status the same error gets before streaming starts
+const ERROR_TYPE_STATUSES: Record<string, number> = {
+  invalid_request_error: 400,
+  authentication_error: 401,
+  permission_error: 403,
+  not_found_error: 404,
+  rate_limit_error: 429,
+  api_error: 500,
+  server_error: 500,
+  overloaded_error: 529,
+};
+
+/**
+ * Splits text into server-sent events following the SSE framing rules: CRLF, LF or CR line
+ * endings, comment lines, optional space after the colon and multi-line data fields
+ */
+export class SSEDecoder {
+  private buffer = '';
+  private data: string[] = [];
+  private event?: string;
+  private id?: string;
+
+  /**
+   * Add text and return the events it completed
+   */
+  push(text: string): ServerSentEvent[] {
+    this.buffer += text;
+    const events: ServerSentEvent[] = [];
+
+    let match: RegExpExecArray | null;
+    const lineEnding = /\r\n|\n|\r/g;
+    let start = 0;
+
+    while ((match = lineEnding.exec(this.buffer))) {
+      // A trailing CR may be the first half of a CRLF split across chunks
+      if (match[0] === '\r' && match.index === this.buffer.length - 1) break;
+
+      const event = this.processLine(this.buffer.slice(start, match.index));
+      if (event) events.push(event);
+      start = lineEnding.lastIndex;
+    }
+
+    this.buffer = this.buffer.slice(start);
+    return events;
+  }
+
+  /**
+   * Return the event left unterminated when the stream ended, if any
+   */
+  flush(): ServerSentEvent[] {
+    const remaining = this.buffer;
+    this.buffer = '';
+
+    const events: ServerSentEvent[] = [];
+    if (remaining) {
+      const event = this.processLine(remaining.replace(/\r$/, ''));
+      if (event) events.push(event);
+    }
+
+    const last = this.processLine('');
+    if (last) events.push(last);
+    return events;
+  }
+
+  private processLine(line: string): ServerSentEvent | null {
+    // A blank line dispatches the event collected so far
+    if (line === '') {
+      if (this.data.length === 0 && !this.event) return null;
+
+      const event: ServerSentEvent = { event: this.event, data: this.data.join('\n'), id: this.id };
+      this.data = [];
+      this.event = undefined;
+      return event;
+    }
+
+    if (line.startsWith(':')) return null;
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    if (field === 'data') {
+      this.data.push(value);
+    } else if (field === 'event') {
+      this.event = value;
+    } else if (field === 'id') {
+      this.id = value;
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Extracts the elements of a streamed top-level JSON array, e.g. `[{...},\n{...}]`, as each one
+ * completes. Elements must be objects or arrays.
+ */
+export class JSONArrayDecoder {
+  private buffer = '';
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private elementStart = -1;
+  private scanned = 0;
+
+  /**
+   * Add text and return the parsed elements it completed
+   */
+  push(text: string): any[] {
+    this.buffer += text;
+    const elements: any[] = [];
+
+    for (let index = this.scanned; index < this.buffer.length; index++) {
+      const char = this.buffer[index];
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === '\\') {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        this.inString = true;
+      } else if (char === '{' || char === '[') {
+        // Depth 1 is inside the outer array, where elements start
+        if (this.depth === 1) this.elementStart = index;
+        this.depth++;
+      } else if (char === '}' || char === ']') {
+        this.depth--;
+        if (this.depth === 1 && this.elementStart !== -1) {
+          elements.push(JSON.parse(this.buffer.slice(this.elementStart, index + 1)));
+          this.elementStart = -1;
+        }
+      }
+    }
+
+    // Keep only the element in progress, re-basing offsets onto the shortened buffer
+    const keepFrom = this.elementStart === -1 ? this.buffer.length : this.elementStart;
+    this.buffer = this.buffer.slice(keepFrom);
+    this.scanned = this.buffer.length;
+    if (this.elementStart !== -1) this.elementStart = 0;
+
+    return elements;
+  }
+}
+
+/**
+ * Decode a response body as server-sent events
+ */
+export async function* readServerSentEvents(body: AsyncIterable<Uint8Array | string>): AsyncGenerator<ServerSentEvent> {
+  const decoder = new SSEDecoder();
+
+  for await (const text of decodeText(body)) {
+    yield* decoder.push(text);
+  }
+  yield* decoder.flush();
+}
+
+/**
+ * Decode a response body holding a JSON array, yielding elements as they complete
+ */
+export async function* readJSONArray(body: AsyncIterable<Uint8Array | string>): AsyncGenerator<any> {
+  const decoder = new JSONArrayDecoder();
+
+  for await (const text of decodeText(body)) {
+    yield* decoder.push(text);
+  }
+}
+
+/**
+ * Yield the JSON payloads of a streamed response, whether it is sent as server-sent events or as a
+ * JSON array. Stops at an OpenAI-style `[DONE]` marker and throws a StreamError for error events.
+ */
+export async function* readJSONStream(response: {
+  headers: { get(name: string): string | null };
+  body: AsyncIterable<Uint8Array | string> | null;
+}): AsyncGenerator<any> {
+  if (!response.body) {
+    throw new Error('No response body');
+  }
+
+  if (!/text\/event-stream/i.test(response.headers.get('content-type') || '')) {
+    for await (const element of readJSONArray(response.body)) {
+      throwIfError(element);
+      yield element;
+    }
+    return;
+  }
+
+  for await (const event of readServerSentEvents(response.body)) {
+    if (event.data === '[DONE]') return;
+    if (event.data === '' && event.event !== 'error') continue;
+
+    let payload: any;
+    try {
+      payload = JSON.parse(event.data);
+    } catch (error) {
+      if (event.event === 'error') throw new StreamError(event.data || 'Stream error');
+      throw new StreamError(`Malformed stream event: ${event.data.slice(0, 200)}`);
+    }
+
+    if (event.event === 'error' && !payload?.error) {
+      throw new StreamError(payload?.message || 'Stream error');
+    }
+    throwIfError(payload);
+    yield payload;
+  }
+}
+
+/**
+ * Throw the error object providers send in place of a normal event, e.g.
+ * `{"error": {"type": "overloaded_error", "message": "..."}}` or Gemini's `{"error": {"code": 503, ...}}`
+ */
+function throwIfError(payload: any): void {
+  const error = payload?.error;
+  if (!error) return;
+
+  const status = typeof error.code === 'number' ? error.code : ERROR_TYPE_STATUSES[error.type];
+  throw new StreamError(error.message || (typeof error === 'string' ? error : 'Stream error'), status);
+}
+
+/**
+ * Decode bytes to text without splitting multi-byte characters at chunk boundaries
+ */
+async function* decodeText(body: AsyncIterable<Uint8Array | string>): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+
+  for await (const chunk of body) {
+    yield typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+  }
+
+  const rest = decoder.decode();
+  if (rest) yield rest;
+}
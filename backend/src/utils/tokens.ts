@@ -0,0 +1,37 @@
+import { ChatMessage, TokenUsage } from '../types/shared';
+
+// Average characters per token for English text with each provider's tokenizer
+const CHARS_PER_TOKEN: Record<string, number> = {
+  anthropic: 3.5,
+  openai: 4,
+  gemini: 4,
+};
+
+// Role markers and separators each message adds on top of its content
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/**
+ * Rough token count for budgeting prompt text
+ */
+export function estimateTokens(text: string, provider?: string): number {
+  const charsPerToken = (provider && CHARS_PER_TOKEN[provider]) || 4;
+  return Math.ceil(text.length / charsPerToken);
+}
+
+/**
+ * Rough token count for a list of chat messages
+ */
+export function estimateMessageTokens(messages: ChatMessage[], provider?: string): number {
+  return messages.reduce((total, message) => total + estimateTokens(message.content, provider) + MESSAGE_OVERHEAD_TOKENS, 0);
+}
+
+/**
+ * Rough usage for a response whose provider did not report it
+ */
+export function estimateUsage(messages: ChatMessage[], systemPrompt: string, response: string, provider?: string): TokenUsage {
+  return {
+    inputTokens: estimateTokens(systemPrompt, provider) + estimateMessageTokens(messages, provider),
+    outputTokens: estimateTokens(response, provider),
+    estimated: true,
+  };
+}